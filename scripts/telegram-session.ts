@@ -0,0 +1,242 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import input from 'input';
+import { Api, TelegramClient } from 'telegram';
+import { StringSession } from 'telegram/sessions';
+import { AccountConfig, AppConfig, readConfig } from '@/lib/config';
+
+// Create or verify the Telegram string sessions the service runs on.
+//
+//   npm run session login [-- --print]   log in and write .env.local
+//   npm run session login -- --account <name> [--print]
+//                                        log in one of TELEGRAM_ACCOUNTS
+//   npm run session check                verify the config, sessions and
+//                                        that each account can read its chats
+const ENV_FILE = path.join(process.cwd(), '.env.local');
+
+dotenv.config({ path: ENV_FILE });
+
+function fail(message: string): never {
+  console.error(`✗ ${message}`);
+  process.exit(1);
+}
+
+// Set (or add) keys in .env.local, keeping everything else as it is
+function writeEnv(values: Record<string, string>) {
+  const lines = fs.existsSync(ENV_FILE)
+    ? fs.readFileSync(ENV_FILE, 'utf8').split('\n')
+    : [];
+  const remaining = new Map(Object.entries(values));
+
+  const updated = lines.map((line) => {
+    const key = line.match(/^\s*([A-Z0-9_]+)\s*=/)?.[1];
+    if (key && remaining.has(key)) {
+      const value = remaining.get(key);
+      remaining.delete(key);
+      return `${key}=${value}`;
+    }
+    return line;
+  });
+
+  // Keep a single trailing newline
+  while (updated.length > 0 && updated[updated.length - 1] === '') {
+    updated.pop();
+  }
+  for (const [key, value] of remaining) {
+    updated.push(`${key}=${value}`);
+  }
+
+  fs.writeFileSync(ENV_FILE, updated.join('\n') + '\n');
+}
+
+async function apiCredentials() {
+  const apiId = process.env.TELEGRAM_API_ID || (await input.text('API id:'));
+  const apiHash =
+    process.env.TELEGRAM_API_HASH || (await input.text('API hash:'));
+
+  if (!/^\d+$/.test(apiId)) {
+    fail(`TELEGRAM_API_ID must be a number, got "${apiId}"`);
+  }
+  if (!/^[0-9a-f]{32}$/i.test(apiHash)) {
+    fail(
+      'TELEGRAM_API_HASH must be the 32 character hash from my.telegram.org'
+    );
+  }
+
+  return { apiId, apiHash };
+}
+
+// TELEGRAM_ACCOUNTS with `name` logged in to `session`
+function withAccount(name: string, session: string) {
+  let accounts: { name: string; session: string }[] = [];
+  try {
+    accounts = JSON.parse(process.env.TELEGRAM_ACCOUNTS || '[]');
+  } catch {
+    fail('TELEGRAM_ACCOUNTS in .env.local is not valid JSON');
+  }
+
+  const existing = accounts.find((account) => account.name === name);
+  if (existing) {
+    existing.session = session;
+  } else {
+    accounts.push({ name, session });
+  }
+  return JSON.stringify(accounts);
+}
+
+async function login(print: boolean, account?: string) {
+  const { apiId, apiHash } = await apiCredentials();
+  const client = new TelegramClient(
+    new StringSession(''),
+    parseInt(apiId),
+    apiHash,
+    { connectionRetries: 5 }
+  );
+
+  await client.start({
+    phoneNumber: () => input.text('Phone number (international format):'),
+    phoneCode: () => input.text('Login code:'),
+    password: () => input.password('2FA password:'),
+    onError: (error) => console.error(`✗ ${error.message}`),
+  });
+
+  const me = await client.getMe();
+  const session = client.session.save() as unknown as string;
+  await client.disconnect();
+
+  console.log(`✓ Logged in as ${me.firstName || me.username || me.id}`);
+
+  if (print) {
+    console.log(
+      account
+        ? `\nTELEGRAM_ACCOUNTS entry: ${JSON.stringify({ name: account, session })}`
+        : `\nTELEGRAM_STRING_SESSION=${session}`
+    );
+    return;
+  }
+
+  writeEnv({
+    TELEGRAM_API_ID: apiId,
+    TELEGRAM_API_HASH: apiHash,
+    // Quoted, since the list is JSON
+    ...(account
+      ? { TELEGRAM_ACCOUNTS: `'${withAccount(account, session)}'` }
+      : { TELEGRAM_STRING_SESSION: session }),
+  });
+  console.log(
+    `✓ Wrote ${account ? `account "${account}"` : 'session'} to ${ENV_FILE}`
+  );
+  if (account && process.env.TELEGRAM_STRING_SESSION) {
+    console.log(
+      '  TELEGRAM_STRING_SESSION is ignored now that TELEGRAM_ACCOUNTS is set'
+    );
+  }
+}
+
+async function check() {
+  let config: AppConfig;
+  try {
+    config = readConfig();
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+
+  for (const account of config.telegram.accounts) {
+    await checkAccount(config, account);
+  }
+}
+
+// Log the account in and make sure it can read the chats assigned to it
+async function checkAccount(config: AppConfig, account: AccountConfig) {
+  const { apiId, apiHash } = config.telegram;
+  const loginHint =
+    config.telegram.accounts.length > 1 || account.name !== 'default'
+      ? `npm run session login -- --account ${account.name}`
+      : 'npm run session login';
+
+  let stringSession: StringSession;
+  try {
+    stringSession = new StringSession(account.session);
+  } catch {
+    fail(
+      `The session of account "${account.name}" is not a valid string session`
+    );
+  }
+
+  const client = new TelegramClient(stringSession, apiId, apiHash, {
+    connectionRetries: 2,
+  });
+
+  try {
+    await client.connect();
+
+    if (!(await client.checkAuthorization())) {
+      fail(
+        `The session of account "${account.name}" is not logged in (expired or revoked); run \`${loginHint}\``
+      );
+    }
+    const me = await client.getMe();
+    console.log(
+      `✓ Account "${account.name}" is logged in as ${me.firstName || me.username || me.id}`
+    );
+
+    const chats = config.chats.filter((chat) => chat.account === account.name);
+    for (const { alias, id } of chats) {
+      const chat = await client.getEntity(id).catch(() => null);
+      if (!(chat instanceof Api.Channel)) {
+        fail(
+          `Chat "${alias}" (${id}) is not a supergroup account "${account.name}" can see`
+        );
+      }
+      if (!chat.forum) {
+        fail(`Chat "${alias}" ("${chat.title}") does not have topics enabled`);
+      }
+
+      const topics = await client.invoke(
+        new Api.channels.GetForumTopics({
+          channel: chat,
+          offsetDate: 0,
+          offsetId: 0,
+          offsetTopic: 0,
+          limit: 1,
+        })
+      );
+      console.log(
+        `✓ Can read forum "${chat.title}" as "${alias}" (${topics.count} topics)`
+      );
+    }
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  } finally {
+    await client.disconnect();
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'login': {
+      const accountIndex = args.indexOf('--account');
+      const account = accountIndex >= 0 ? args[accountIndex + 1] : undefined;
+      if (accountIndex >= 0 && !/^[a-z0-9_-]+$/i.test(account || '')) {
+        fail('--account needs a name made of letters, digits, _ and -');
+      }
+      await login(args.includes('--print'), account);
+      break;
+    }
+    case 'check':
+      await check();
+      break;
+    default:
+      console.log(
+        'Usage: npm run session <login [-- [--account <name>] [--print]] | check>'
+      );
+      process.exit(command ? 1 : 0);
+  }
+
+  process.exit(0);
+}
+
+main().catch((error) => fail(error.message || String(error)));
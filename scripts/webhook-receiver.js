@@ -0,0 +1,52 @@
+const http = require('http');
+const crypto = require('crypto');
+
+// Local stand-in for a webhook consumer. Logs every delivery and checks
+// its signature. Set WEBHOOK_FAIL=1 to answer 500 and exercise retries.
+//
+//   WEBHOOK_SECRET=<secret> node scripts/webhook-receiver.js
+const port = parseInt(process.env.PORT || '4000');
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.WEBHOOK_FAIL === '1';
+
+function verify(body, timestamp, signature) {
+  if (!secret) return 'unchecked (no WEBHOOK_SECRET)';
+
+  const expected =
+    'sha256=' +
+    crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+  const valid =
+    typeof signature === 'string' &&
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+
+  return valid ? 'valid' : 'INVALID';
+}
+
+http
+  .createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const signature = verify(
+        body,
+        req.headers['x-webhook-timestamp'],
+        req.headers['x-webhook-signature']
+      );
+
+      console.log(
+        `\n${req.method} ${req.url} delivery=${req.headers['x-webhook-id']} signature=${signature}`
+      );
+      console.log(body);
+
+      res.writeHead(fail ? 500 : 200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: !fail }));
+    });
+  })
+  .listen(port, () => {
+    console.log(`Webhook receiver listening on http://localhost:${port}`);
+  });
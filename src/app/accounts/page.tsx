@@ -0,0 +1,19 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import AccountsPanel from '@/app/components/accounts-panel';
+import { SESSION_COOKIE, verifySession } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export default async function Accounts() {
+  const cookieStore = await cookies();
+  if (!verifySession(cookieStore.get(SESSION_COOKIE)?.value)) {
+    redirect('/login');
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <AccountsPanel />
+    </main>
+  );
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveChat } from '@/lib/config';
+import { authorize } from '@/lib/auth';
+import { getAuditLog } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_ENTRIES = 1000;
+
+// Recent audit entries, newest first; filter with principal, chatId and
+// denied=true
+export async function GET(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const chatParam = searchParams.get('chatId');
+  const limit = Math.min(
+    parseInt(searchParams.get('limit') || '100'),
+    MAX_ENTRIES
+  );
+
+  const entries = getAuditLog().list({
+    principal: searchParams.get('principal') || undefined,
+    // Entries hold resolved chat ids, so aliases work too
+    chatId: chatParam ? resolveChat(chatParam)?.id || chatParam : undefined,
+    denied: searchParams.get('denied') === 'true',
+    limit: isNaN(limit) ? 100 : limit,
+  });
+
+  return NextResponse.json({
+    success: true,
+    count: entries.length,
+    entries: entries,
+  });
+}
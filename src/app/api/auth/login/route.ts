@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { checkPassword, clientIp, createSession } from '@/lib/auth';
+import { getAuditLog } from '@/lib/audit';
+import { invalidBodyResponse, readJsonObject } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+
+// Slows down password guessing
+const FAILED_LOGIN_DELAY_MS = 1000;
+
+// Dashboard login: `{ "password": "..." }` sets the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    if (!getConfig().auth.dashboardPassword) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Dashboard login is not enabled',
+          details: 'Set DASHBOARD_PASSWORD to sign in to the dashboard',
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = await readJsonObject(request);
+    if (!body) {
+      return invalidBodyResponse();
+    }
+    const password = typeof body.password === 'string' ? body.password : '';
+    const allowed = checkPassword(password);
+
+    getAuditLog().record({
+      at: Date.now(),
+      principal: 'dashboard',
+      action: 'login',
+      path: request.nextUrl.pathname,
+      allowed,
+      ip: clientIp(request),
+    });
+
+    if (!allowed) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, FAILED_LOGIN_DELAY_MS)
+      );
+      return NextResponse.json(
+        { success: false, error: 'Wrong password' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(createSession(request));
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to sign in',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
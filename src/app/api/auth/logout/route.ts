@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, clientIp, SESSION_COOKIE } from '@/lib/auth';
+import { getAuditLog } from '@/lib/audit';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const principal = authenticate(request);
+
+  if (principal) {
+    getAuditLog().record({
+      at: Date.now(),
+      principal: principal.name,
+      action: 'logout',
+      path: request.nextUrl.pathname,
+      allowed: true,
+      ip: clientIp(request),
+    });
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
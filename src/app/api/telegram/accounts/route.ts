@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { authorize } from '@/lib/auth';
+import { getTelegramServices } from '@/lib/telegram/service';
+import { TelegramService } from '@/lib/telegram/client';
+import { invalidBodyResponse, readJsonObject } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+
+const accountStatus = (service: TelegramService) => ({
+  ...service.getHealth(),
+  // Aliases of the chats the account reads
+  chats: getConfig()
+    .chats.filter((chat) => chat.account === service.account.name)
+    .map((chat) => chat.alias),
+});
+
+// Health of every Telegram account: connection, last error, flood waits
+export async function GET(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const accounts = getTelegramServices().map(accountStatus);
+
+  return NextResponse.json({
+    success: true,
+    count: accounts.length,
+    accounts: accounts,
+  });
+}
+
+// Reconnect an account: `{ "account": "<name>" }`
+export async function POST(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const body = await readJsonObject(request);
+  if (!body) {
+    return invalidBodyResponse();
+  }
+
+  const service = getTelegramServices().find(
+    (candidate) => candidate.account.name === body.account
+  );
+
+  if (!service) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Unknown account',
+        details: 'account must be the name of a configured account',
+      },
+      { status: 404 }
+    );
+  }
+
+  try {
+    await service.reconnect();
+
+    return NextResponse.json({
+      success: true,
+      account: accountStatus(service),
+    });
+  } catch (error) {
+    console.error(`Error reconnecting account ${service.account.name}:`, error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to reconnect',
+        details: errorMessage,
+        account: accountStatus(service),
+      },
+      { status: 500 }
+    );
+  }
+}
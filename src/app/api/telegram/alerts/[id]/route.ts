@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getAlertRules, validateAlertRule } from '@/lib/telegram/alerts';
+
+export const dynamic = 'force-dynamic';
+
+const notFound = (id: string) =>
+  NextResponse.json(
+    {
+      success: false,
+      error: 'Alert rule not found',
+      details: `No alert rule with id ${id}`,
+    },
+    { status: 404 }
+  );
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const { id } = await params;
+  const rule = getAlertRules().get(id);
+
+  return rule ? NextResponse.json({ success: true, rule }) : notFound(id);
+}
+
+// Partial update: only the fields in the body change
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  try {
+    const { id } = await params;
+    const existing = getAlertRules().get(id);
+    if (!existing) {
+      return notFound(id);
+    }
+
+    const input = await request.json();
+    const invalid = validateAlertRule(input, existing);
+
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid alert rule', details: invalid },
+        { status: 400 }
+      );
+    }
+
+    const rule = getAlertRules().update(id, input);
+
+    return rule ? NextResponse.json({ success: true, rule }) : notFound(id);
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update alert rule',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const { id } = await params;
+
+  return getAlertRules().delete(id)
+    ? NextResponse.json({ success: true, id })
+    : notFound(id);
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getAlertRules, validateAlertRule } from '@/lib/telegram/alerts';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const rules = getAlertRules().list();
+
+  return NextResponse.json({ success: true, count: rules.length, rules });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  try {
+    const input = await request.json();
+    const invalid = validateAlertRule(input);
+
+    if (invalid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid alert rule', details: invalid },
+        { status: 400 }
+      );
+    }
+
+    const rule = getAlertRules().create(input);
+
+    return NextResponse.json({ success: true, rule });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create alert rule',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveChat } from '@/lib/config';
+import { authorize, canAccess, enforce } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { rateLimitedResponse } from '@/lib/telegram/scheduler';
+import { getMediaCache } from '@/lib/telegram/media-cache';
+import { getMessageStore } from '@/lib/telegram/store';
+import { unknownTargetResponse } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ peerId: string }> }
+) {
+  try {
+    const { peerId } = await params;
+    // The photo id from MessageSender.avatarId; a new photo gets a new id,
+    // so cached files never go stale
+    const photoId = request.nextUrl.searchParams.get('photo');
+
+    // Both end up in a cache file name
+    if (!/^\d+$/.test(peerId) || !photoId || !/^-?\d+$/.test(photoId)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid peer or photo id',
+          details: 'peerId and photo must be numeric ids',
+        },
+        { status: 400 }
+      );
+    }
+
+    // The chat the sender was seen in; the default chat when omitted
+    const chat = resolveChat(request.nextUrl.searchParams.get('chatId'));
+    if (!chat) {
+      return unknownTargetResponse('chat');
+    }
+    const chatId = chat.id;
+
+    const auth = authorize(
+      request,
+      'media',
+      { chatId, anyTopic: true },
+      { peerId }
+    );
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    // Keys limited to some topics only get the photos of people who
+    // posted in one of them
+    if (!canAccess(auth, { chatId })) {
+      const topicId = getMessageStore()
+        .listMessages(chatId)
+        .filter((message) => (message.sender?.id || message.fromId) === peerId)
+        .map((message) => message.topicId)
+        .find((topicId) => canAccess(auth, { chatId, topicId }));
+      const denied = enforce(
+        request,
+        auth,
+        'media',
+        { chatId, topicId },
+        { peerId }
+      );
+      if (denied) {
+        return denied;
+      }
+    }
+
+    // Only an account that has seen the sender can fetch their photo, so
+    // ask the one reading the chat they posted in
+    const service = getTelegramService(chatId);
+    const cached = await getMediaCache().getOrDownload(
+      'avatars',
+      `${peerId}-${photoId}`,
+      'thumb',
+      async (outputFile) => {
+        const found = await service.downloadAvatar(peerId, outputFile);
+        return found ? { contentType: 'image/jpeg' } : null;
+      }
+    );
+
+    if (!cached) {
+      return NextResponse.json(
+        { success: false, error: 'No profile photo found' },
+        { status: 404 }
+      );
+    }
+
+    const stream = Readable.toWeb(
+      fs.createReadStream(cached.path)
+    ) as ReadableStream<Uint8Array>;
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': cached.contentType,
+        'Content-Length': cached.size.toString(),
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving avatar:', error);
+
+    const limited = rateLimitedResponse(error);
+    if (limited) {
+      return limited;
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch avatar',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
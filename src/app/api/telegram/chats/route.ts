@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConfig } from '@/lib/config';
+import { authorize, canAccess } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+// Configured chats the caller may read, the first being the default
+export async function GET(request: NextRequest) {
+  const auth = authorize(request, 'list', 'signed-in');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const chats = getConfig().chats.filter((chat) =>
+    canAccess(auth, { chatId: chat.id, anyTopic: true })
+  );
+
+  return NextResponse.json({
+    success: true,
+    count: chats.length,
+    chats: chats,
+  });
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DIGEST_PERIODS, DigestPeriod, resolveTopicTarget } from '@/lib/config';
+import { authorize } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { rateLimitedResponse } from '@/lib/telegram/scheduler';
+import {
+  DIGEST_FORMATS,
+  DigestFormat,
+  digestRange,
+  generateDigest,
+  lastCompleteRange,
+  localDate,
+  renderDigest,
+} from '@/lib/telegram/digest';
+import { EXPORT_FORMATS } from '@/lib/telegram/export';
+import { parseDateParam, unknownTargetResponse } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// A topic's daily or weekly digest, as JSON, Markdown or HTML. `date` picks
+// the period holding it; without it the last one that is over.
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const target = resolveTopicTarget(
+      searchParams.get('chatId'),
+      searchParams.get('topicId')
+    );
+
+    if (!target) {
+      return unknownTargetResponse();
+    }
+    const { chatId, topicId } = target;
+    const period = (searchParams.get('period') || 'daily') as DigestPeriod;
+    const format = (searchParams.get('format') || 'json') as DigestFormat;
+    const date = parseDateParam(searchParams.get('date'));
+    const utcOffset = parseInt(searchParams.get('utcOffset') || '0');
+
+    if (!DIGEST_PERIODS.includes(period)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid period',
+          details: `Expected one of: ${DIGEST_PERIODS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!DIGEST_FORMATS.includes(format)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid digest format',
+          details: `Expected one of: ${DIGEST_FORMATS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (date === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid date',
+          details: 'date must be a unix timestamp or ISO date',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(utcOffset) || Math.abs(utcOffset) > 14 * 60) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid UTC offset',
+          details: 'utcOffset must be minutes east of UTC, e.g. 120',
+        },
+        { status: 400 }
+      );
+    }
+
+    const range =
+      date === undefined
+        ? lastCompleteRange(period, utcOffset)
+        : digestRange(period, utcOffset, date);
+
+    const auth = authorize(
+      request,
+      'digest',
+      { chatId, topicId },
+      { period, format, ...range }
+    );
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const digest = await generateDigest(getTelegramService(chatId), {
+      chatId,
+      topicId,
+      period,
+      utcOffset,
+      ...range,
+    });
+
+    if (format === 'json') {
+      return NextResponse.json({ success: true, ...digest });
+    }
+
+    const { contentType, extension } = EXPORT_FORMATS[format];
+    const name = `topic-${topicId}-${period}-${localDate(
+      range.from,
+      utcOffset
+    )}.${extension}`;
+
+    return new Response(renderDigest(digest, format), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `inline; filename="${name}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error generating digest:', error);
+
+    const limited = rateLimitedResponse(error);
+    if (limited) {
+      return limited;
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to generate digest',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveTopicTarget } from '@/lib/config';
+import { authorize } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import {
+  createTopicExportStream,
+  EXPORT_FORMATS,
+  isExportFormat,
+} from '@/lib/telegram/export';
+import { parseDateParam, unknownTargetResponse } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+export const maxDuration = 300; // 5 minutes max for Vercel
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const target = resolveTopicTarget(
+    searchParams.get('chatId'),
+    searchParams.get('topicId')
+  );
+
+  if (!target) {
+    return unknownTargetResponse();
+  }
+  const { chatId, topicId } = target;
+  const format = searchParams.get('format') || 'jsonl';
+  const from = parseDateParam(searchParams.get('from'));
+  const to = parseDateParam(searchParams.get('to'));
+
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid export format',
+        details: `Expected one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (from === null || to === null) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid date range',
+        details: 'from and to must be unix timestamps or ISO dates',
+      },
+      { status: 400 }
+    );
+  }
+
+  const auth = authorize(
+    request,
+    'export',
+    { chatId, topicId },
+    { format, from, to }
+  );
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const stream = createTopicExportStream(
+    getTelegramService(chatId),
+    chatId,
+    topicId,
+    { format, from, to }
+  );
+  const { contentType, extension } = EXPORT_FORMATS[format];
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="topic-${topicId}.${extension}"`,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no', // Disable Nginx buffering
+    },
+  });
+}
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveChat } from '@/lib/config';
+import { authorize, canAccess, enforce } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { rateLimitedResponse } from '@/lib/telegram/scheduler';
+import { getMediaCache } from '@/lib/telegram/media-cache';
+import { getMessageStore } from '@/lib/telegram/store';
+import { unknownTargetResponse } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ chatId: string; messageId: string }> }
+) {
+  try {
+    const { chatId: chatRef, messageId } = await params;
+    const id = parseInt(messageId);
+    const thumbnail = request.nextUrl.searchParams.get('thumb') === 'true';
+    const chat = resolveChat(chatRef);
+
+    if (!chat) {
+      return unknownTargetResponse('chat');
+    }
+    const chatId = chat.id;
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid message id' },
+        { status: 400 }
+      );
+    }
+
+    const auth = authorize(request, 'media', {
+      chatId,
+      anyTopic: true,
+      messageId: id,
+    });
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    // Keys limited to some topics only get media posted inside them. Only
+    // the archive is asked, so a message they can't see is a 403 whether
+    // it exists or not.
+    if (!canAccess(auth, { chatId })) {
+      const denied = enforce(request, auth, 'media', {
+        chatId,
+        topicId: getMessageStore().getMessage(chatId, id)?.topicId,
+        messageId: id,
+      });
+      if (denied) {
+        return denied;
+      }
+    }
+
+    const service = getTelegramService(chatId);
+
+    const cached = await getMediaCache().getOrDownload(
+      chatId,
+      id,
+      thumbnail ? 'thumb' : 'file',
+      async (outputFile) => {
+        const media = await service.downloadMessageMedia(
+          chatId,
+          id,
+          outputFile,
+          thumbnail
+        );
+        if (!media) return null;
+
+        return {
+          // Thumbnails are always JPEG, whatever the original file is
+          contentType: thumbnail
+            ? 'image/jpeg'
+            : media.mimeType || 'application/octet-stream',
+          fileName: thumbnail ? undefined : media.fileName,
+        };
+      }
+    );
+
+    if (!cached) {
+      return NextResponse.json(
+        { success: false, error: 'No media found for this message' },
+        { status: 404 }
+      );
+    }
+
+    const fileName = cached.fileName || `${id}`;
+    const stream = Readable.toWeb(
+      fs.createReadStream(cached.path)
+    ) as ReadableStream<Uint8Array>;
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': cached.contentType,
+        'Content-Length': cached.size.toString(),
+        'Content-Disposition': `inline; filename*=UTF-8''${encodeURIComponent(
+          fileName
+        )}`,
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving media:', error);
+
+    const limited = rateLimitedResponse(error);
+    if (limited) {
+      return limited;
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch media',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
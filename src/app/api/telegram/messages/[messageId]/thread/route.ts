@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveChat } from '@/lib/config';
+import { authorize, canAccess, enforce } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { rateLimitedResponse } from '@/lib/telegram/scheduler';
+import { getMessageStore } from '@/lib/telegram/store';
+import { getMessageThread } from '@/lib/telegram/threads';
+import { unknownTargetResponse } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+
+// A message with the replies it's part of: the chain of parents above it
+// and every archived reply below it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ messageId: string }> }
+) {
+  try {
+    const { messageId } = await params;
+    const id = parseInt(messageId);
+    const chat = resolveChat(request.nextUrl.searchParams.get('chatId'));
+
+    if (!chat) {
+      return unknownTargetResponse('chat');
+    }
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid message id' },
+        { status: 400 }
+      );
+    }
+
+    const auth = authorize(request, 'read', {
+      chatId: chat.id,
+      anyTopic: true,
+      messageId: id,
+    });
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    // Keys limited to some topics only see the threads inside them. Only
+    // the archive is asked, so a message they can't see is a 403 whether
+    // it exists or not.
+    if (!canAccess(auth, { chatId: chat.id })) {
+      const denied = enforce(request, auth, 'read', {
+        chatId: chat.id,
+        topicId: getMessageStore().getMessage(chat.id, id)?.topicId,
+        messageId: id,
+      });
+      if (denied) {
+        return denied;
+      }
+    }
+
+    const thread = await getMessageThread(
+      getTelegramService(chat.id),
+      chat.id,
+      id
+    );
+
+    if (!thread) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Message not found',
+          details: `No message ${id} in chat ${chat.id}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      chatId: chat.id,
+      ...thread,
+    });
+  } catch (error) {
+    console.error('Error fetching thread:', error);
+
+    const limited = rateLimitedResponse(error);
+    if (limited) {
+      return limited;
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch thread',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
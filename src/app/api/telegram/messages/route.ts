@@ -1,44 +1,152 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { TelegramService } from '@/lib/telegram/client';
+import { resolveTopicTarget } from '@/lib/config';
+import { authorize } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { rateLimitedResponse } from '@/lib/telegram/scheduler';
+import { MAX_PAGE_SIZE } from '@/lib/telegram/client';
+import {
+  MAX_MESSAGE_LENGTH,
+  SendFailure,
+  SendMessageError,
+} from '@/lib/telegram/compose';
+import type { ParsedMessage } from '@/lib/telegram/types';
+import {
+  renderHtml,
+  renderMarkdown,
+  TextFormat,
+} from '@/lib/telegram/formatting';
+import {
+  invalidBodyResponse,
+  parsePositiveIntParam,
+  readJsonObject,
+  unknownTargetResponse,
+} from '@/lib/telegram/params';
 
 export const dynamic = 'force-dynamic';
 
-let telegramService: TelegramService | null = null;
+// The most messages an all=true request answers with at once
+const MAX_BACKFILL_PAGE = 1000;
 
-function getTelegramService() {
-  if (!telegramService) {
-    telegramService = new TelegramService();
+const SEND_FAILURE_STATUS: Record<SendFailure, number> = {
+  topic_closed: 409,
+  topic_deleted: 404,
+  forbidden: 403,
+  reply_missing: 404,
+  invalid_text: 400,
+};
+
+// Swap the text for its rendered form; the entities' offsets no longer
+// apply to it, so they are dropped
+function renderText(message: ParsedMessage, format: TextFormat) {
+  if (format === 'plain') {
+    return message;
   }
-  return telegramService;
+
+  const { entities, ...rest } = message;
+  return {
+    ...rest,
+    text:
+      format === 'html'
+        ? renderHtml(message.text, entities)
+        : renderMarkdown(message.text, entities),
+  };
 }
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const chatId = searchParams.get('chatId') || process.env.SUPERGROUP_ID!;
-    const topicId = parseInt(
-      searchParams.get('topicId') || process.env.TOPIC_ID || '1'
+    const target = resolveTopicTarget(
+      searchParams.get('chatId'),
+      searchParams.get('topicId')
     );
-    const limit = parseInt(searchParams.get('limit') || '100');
 
-    const service = getTelegramService();
+    if (!target) {
+      return unknownTargetResponse();
+    }
+    const { chatId, topicId } = target;
 
-    // Get messages from the forum topic (General by default)
-    const messages = await service.getForumTopicMessages(
-      chatId,
-      topicId,
-      limit
+    const auth = authorize(request, 'read', { chatId, topicId });
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const limitParam = parsePositiveIntParam(searchParams.get('limit'));
+    const before = parsePositiveIntParam(searchParams.get('before'));
+    const after = parsePositiveIntParam(searchParams.get('after'));
+    const backfill = searchParams.get('all') === 'true';
+    const format = (searchParams.get('format') || 'plain') as TextFormat;
+
+    if (limitParam === null || before === null || after === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid paging parameters',
+          details: 'limit, before and after must be positive integers',
+        },
+        { status: 400 }
+      );
+    }
+    const limit = Math.min(
+      limitParam ?? MAX_PAGE_SIZE,
+      backfill ? MAX_BACKFILL_PAGE : MAX_PAGE_SIZE
     );
 
+    if (!['plain', 'markdown', 'html'].includes(format)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid text format',
+          details: 'Expected one of: plain, markdown, html',
+        },
+        { status: 400 }
+      );
+    }
+
+    const service = getTelegramService(chatId);
+
+    let messages: ParsedMessage[] = [];
+    let nextCursor: number | undefined;
+
+    if (backfill) {
+      // Mirror the whole topic history (down to `after` if given), but
+      // answer with one page of it at a time; nextCursor pages on through
+      // the mirror
+      const history = await service.backfillForumTopic(chatId, topicId, after);
+      const older = before
+        ? history.filter((message) => message.id < before)
+        : history;
+      messages = older.slice(0, limit);
+      if (older.length > messages.length) {
+        nextCursor = messages[messages.length - 1]?.id;
+      }
+    } else {
+      // Serve the page from the local store, filling in from Telegram
+      const page = await service.getTopicHistory(chatId, topicId, {
+        limit,
+        before,
+        after,
+      });
+      messages = page.messages;
+      nextCursor = page.nextCursor;
+    }
+
     return NextResponse.json({
       success: true,
+      chatId: chatId,
       topicId: topicId,
       count: messages.length,
-      messages: messages,
+      format: format,
+      messages: messages.map((message) => renderText(message, format)),
+      nextCursor: nextCursor,
     });
   } catch (error) {
     console.error('Error fetching messages:', error);
 
+    const limited = rateLimitedResponse(error);
+    if (limited) {
+      return limited;
+    }
+
     const errorMessage =
       error instanceof Error ? error.message : 'Unknown error occurred';
 
@@ -52,3 +160,111 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// Post into a topic: `{ "chatId", "topicId", "text", "replyToMsgId"? }`.
+// Responds with the sent message as it was archived.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject(request);
+    if (!body) {
+      return invalidBodyResponse();
+    }
+    const target = resolveTopicTarget(
+      body.chatId ? String(body.chatId) : null,
+      body.topicId ? String(body.topicId) : null
+    );
+
+    if (!target) {
+      return unknownTargetResponse();
+    }
+    const { chatId, topicId } = target;
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    const replyToMsgId =
+      body.replyToMsgId === undefined || body.replyToMsgId === null
+        ? undefined
+        : Number(body.replyToMsgId);
+
+    if (!text || text.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid message text',
+          details: `text must be 1 to ${MAX_MESSAGE_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (
+      replyToMsgId !== undefined &&
+      !(Number.isInteger(replyToMsgId) && replyToMsgId > 0)
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid reply',
+          details: 'replyToMsgId must be a message id',
+        },
+        { status: 400 }
+      );
+    }
+
+    const auth = authorize(
+      request,
+      'send',
+      { chatId, topicId, messageId: replyToMsgId, send: true },
+      { length: text.length }
+    );
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const message = await getTelegramService(chatId).sendMessage(
+      chatId,
+      topicId,
+      text,
+      replyToMsgId
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        chatId: chatId,
+        topicId: topicId,
+        message: message,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error sending message:', error);
+
+    if (error instanceof SendMessageError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Telegram refused the message',
+          details: error.message,
+          reason: error.reason,
+        },
+        { status: SEND_FAILURE_STATUS[error.reason] }
+      );
+    }
+
+    const limited = rateLimitedResponse(error);
+    if (limited) {
+      return limited;
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to send message',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveChat, resolveTopic } from '@/lib/config';
+import { authorize } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { rateLimitedResponse } from '@/lib/telegram/scheduler';
+import { getSearchIndex, hasLink } from '@/lib/telegram/search';
+import { parseDateParam, unknownTargetResponse } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get('q') || '';
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    const hasMedia = searchParams.get('hasMedia') === 'true';
+    const hasLinkFilter = searchParams.get('hasLink') === 'true';
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+    // Also ask Telegram, for history not archived locally yet
+    const remote = searchParams.get('remote') === 'true';
+
+    // Unlike the topic routes, no topicId means every topic
+    const chat = resolveChat(searchParams.get('chatId'));
+    const topicParam = searchParams.get('topicId');
+    const topicId =
+      chat && topicParam ? resolveTopic(chat, topicParam) : undefined;
+
+    if (!chat || topicId === null) {
+      return unknownTargetResponse();
+    }
+    const chatId = chat.id;
+
+    // Keys limited to some topics have to search one of them
+    const auth = authorize(
+      request,
+      'search',
+      { chatId, topicId },
+      { query, from, to, remote }
+    );
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid date range',
+          details: 'from and to must be unix timestamps or ISO dates',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Remote hits land in the store, so the local search below picks
+    // them up with all filters applied
+    if (remote && query) {
+      await getTelegramService(chatId).searchMessages(chatId, query, {
+        topicId,
+        from,
+        to,
+      });
+    }
+
+    const result = getSearchIndex().search(chatId, {
+      query,
+      topicId,
+      sender: searchParams.get('sender') || undefined,
+      from,
+      to,
+      hasMedia,
+      hasLink: hasLinkFilter,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      success: true,
+      chatId: chatId,
+      query: query,
+      total: result.total,
+      count: result.hits.length,
+      hits: result.hits.map(({ message, score }) => ({
+        ...message,
+        score,
+        hasLink: hasLink(message),
+      })),
+    });
+  } catch (error) {
+    console.error('Error searching messages:', error);
+
+    const limited = rateLimitedResponse(error);
+    if (limited) {
+      return limited;
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to search messages',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
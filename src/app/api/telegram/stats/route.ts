@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveChat, resolveTopic } from '@/lib/config';
+import { authorize } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { getMessageStore } from '@/lib/telegram/store';
+import {
+  computeChatStats,
+  STATS_BUCKETS,
+  StatsBucket,
+} from '@/lib/telegram/stats';
+import { parseDateParam, unknownTargetResponse } from '@/lib/telegram/params';
+import type { ForumTopicInfo } from '@/lib/telegram/types';
+
+export const dynamic = 'force-dynamic';
+
+// Activity stats from the local archive; topics that haven't been loaded
+// or backfilled only count what is archived of them
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const from = parseDateParam(searchParams.get('from'));
+    const to = parseDateParam(searchParams.get('to'));
+    const bucket = (searchParams.get('bucket') || 'day') as StatsBucket;
+    const utcOffset = parseInt(searchParams.get('utcOffset') || '0');
+
+    // No topicId means every topic
+    const chat = resolveChat(searchParams.get('chatId'));
+    const topicParam = searchParams.get('topicId');
+    const topicId =
+      chat && topicParam ? resolveTopic(chat, topicParam) : undefined;
+
+    if (!chat || topicId === null) {
+      return unknownTargetResponse();
+    }
+    const chatId = chat.id;
+
+    // Keys limited to some topics have to ask for one of them
+    const auth = authorize(request, 'stats', { chatId, topicId }, { from, to });
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid date range',
+          details: 'from and to must be unix timestamps or ISO dates',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!STATS_BUCKETS.includes(bucket)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid bucket',
+          details: `Expected one of: ${STATS_BUCKETS.join(', ')}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(utcOffset) || Math.abs(utcOffset) > 14 * 60) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid UTC offset',
+          details: 'utcOffset must be minutes east of UTC, e.g. 120',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Titles are cosmetic, the stats are still useful without them
+    let topics: ForumTopicInfo[] = [];
+    try {
+      topics = await getTelegramService(chatId).getForumTopics(chatId);
+    } catch (error) {
+      console.error('Error fetching topics for stats:', error);
+    }
+
+    const stats = computeChatStats(
+      getMessageStore().listMessages(chatId),
+      topics,
+      { topicId, from, to, bucket, utcOffset }
+    );
+
+    return NextResponse.json({
+      success: true,
+      chatId: chatId,
+      topicId: topicId,
+      ...stats,
+    });
+  } catch (error) {
+    console.error('Error computing stats:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to compute stats',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
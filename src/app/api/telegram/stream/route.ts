@@ -1,26 +1,62 @@
-import { NextRequest } from 'next/server';
-import { TelegramService } from '@/lib/telegram/client';
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveTopicTarget } from '@/lib/config';
+import { authorize, canAccess } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { RateLimitedError } from '@/lib/telegram/scheduler';
+import { getAlertRules } from '@/lib/telegram/alerts';
+import { unknownTargetResponse } from '@/lib/telegram/params';
+import type { TopicStreamEvent } from '@/lib/telegram/types';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 export const maxDuration = 300; // 5 minutes max for Vercel
 
-let telegramService: TelegramService | null = null;
+// Longest gap we catch a reconnecting client up on
+const MAX_REPLAY_MESSAGES = 500;
 
 export async function GET(request: NextRequest) {
   const encoder = new TextEncoder();
-
-  // Create new service instance for each connection to avoid stale connections
-  telegramService = new TelegramService();
-
   const searchParams = request.nextUrl.searchParams;
-  const chatId = searchParams.get('chatId') || process.env.SUPERGROUP_ID!;
-  const topicId = parseInt(
-    searchParams.get('topicId') || process.env.TOPIC_ID || '1'
+  const target = resolveTopicTarget(
+    searchParams.get('chatId'),
+    searchParams.get('topicId')
   );
 
+  if (!target) {
+    return unknownTargetResponse();
+  }
+  const { chatId, topicId } = target;
+
+  const auth = authorize(request, 'stream', { chatId, topicId });
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  // All streams of an account share its connection and event handler
+  const telegramService = getTelegramService(chatId);
+
+  // Browsers send Last-Event-ID on their own reconnects; clients that open
+  // a fresh EventSource pass it as a query param instead
+  const lastEventIdParam =
+    request.headers.get('last-event-id') || searchParams.get('lastEventId');
+  const lastEventId =
+    lastEventIdParam && /^\d+$/.test(lastEventIdParam)
+      ? parseInt(lastEventIdParam)
+      : null;
+
   let heartbeatInterval: NodeJS.Timeout | null = null;
   let isStreamActive = true;
+  let unsubscribe: (() => void) | null = null;
+
+  const cleanup = () => {
+    isStreamActive = false;
+    if (heartbeatInterval) {
+      clearInterval(heartbeatInterval);
+    }
+    if (unsubscribe) {
+      unsubscribe();
+    }
+  };
 
   const stream = new ReadableStream({
     async start(controller) {
@@ -34,27 +70,116 @@ export async function GET(request: NextRequest) {
         })}\n\n`;
         controller.enqueue(encoder.encode(connectMsg));
 
+        // New messages carry their id as the SSE event id, so a reconnecting
+        // client can tell us where it left off
+        const sendEvent = (event: TopicStreamEvent, replayed = false) => {
+          try {
+            // message/edited carry the full message, deleted only ids
+            const payload =
+              event.type === 'deleted'
+                ? { ids: event.ids }
+                : event.type === 'topic'
+                  ? { change: event.change, topic: event.topic }
+                  : event.message;
+            const eventId =
+              event.type === 'message' ? `id: ${event.message.id}\n` : '';
+            const data = `${eventId}data: ${JSON.stringify({
+              type: event.type,
+              topicId: topicId,
+              ...payload,
+              ...(replayed && { replayed: true }),
+              timestamp: Date.now(),
+            })}\n\n`;
+            controller.enqueue(encoder.encode(data));
+
+            // Follow up with an alert when the message trips any rules;
+            // service messages only describe what someone did
+            if (
+              (event.type === 'message' || event.type === 'edited') &&
+              !event.message.action
+            ) {
+              const matches = getAlertRules().evaluate(chatId, event.message);
+              if (matches.length > 0) {
+                const alert = `data: ${JSON.stringify({
+                  type: 'alert',
+                  topicId: topicId,
+                  messageId: event.message.id,
+                  text: event.message.text,
+                  sender: event.message.sender,
+                  matches,
+                  timestamp: Date.now(),
+                })}\n\n`;
+                controller.enqueue(encoder.encode(alert));
+              }
+            }
+          } catch (error) {
+            console.error('Error encoding message:', error);
+          }
+        };
+
+        // Live events that arrive while we replay are held back so the
+        // client sees everything in order
+        let buffered: TopicStreamEvent[] | null =
+          lastEventId !== null ? [] : null;
+
         // Set up message streaming
-        await telegramService!.streamForumTopicMessages(
+        unsubscribe = await telegramService.streamForumTopicMessages(
           chatId,
           topicId,
-          (message) => {
+          (event) => {
             if (!isStreamActive) return;
 
-            try {
-              const data = `data: ${JSON.stringify({
-                type: 'message',
-                topicId: topicId,
-                ...message,
-                timestamp: Date.now(),
-              })}\n\n`;
-              controller.enqueue(encoder.encode(data));
-            } catch (error) {
-              console.error('Error encoding message:', error);
+            if (buffered) {
+              buffered.push(event);
+            } else {
+              sendEvent(event);
             }
-          }
+          },
+          // Keys limited to some topics only hear about those
+          canAccess(auth, { chatId })
         );
 
+        // The client may have gone away while we were subscribing
+        if (!isStreamActive) {
+          cleanup();
+          return;
+        }
+
+        if (buffered && lastEventId !== null) {
+          const missed = await telegramService.getTopicMessagesSince(
+            chatId,
+            topicId,
+            lastEventId,
+            MAX_REPLAY_MESSAGES
+          );
+          if (!isStreamActive) return;
+
+          for (const message of missed) {
+            sendEvent({ type: 'message', message }, true);
+          }
+
+          // Anything past the cap has to come from a full reload
+          const resumed = `data: ${JSON.stringify({
+            type: 'resumed',
+            topicId: topicId,
+            from: lastEventId,
+            count: missed.length,
+            truncated: missed.length >= MAX_REPLAY_MESSAGES,
+            timestamp: Date.now(),
+          })}\n\n`;
+          controller.enqueue(encoder.encode(resumed));
+
+          const replayedIds = new Set(missed.map((message) => message.id));
+          const pending: TopicStreamEvent[] = buffered;
+          buffered = null;
+          for (const event of pending) {
+            if (event.type === 'message' && replayedIds.has(event.message.id)) {
+              continue;
+            }
+            sendEvent(event);
+          }
+        }
+
         // More frequent heartbeat to keep connection alive
         heartbeatInterval = setInterval(() => {
           if (!isStreamActive) {
@@ -70,8 +195,7 @@ export async function GET(request: NextRequest) {
             controller.enqueue(encoder.encode(ping));
           } catch (error) {
             console.error('Heartbeat error:', error);
-            if (heartbeatInterval) clearInterval(heartbeatInterval);
-            isStreamActive = false;
+            cleanup();
           }
         }, 5000); // Ping every 5 seconds
       } catch (error) {
@@ -79,36 +203,29 @@ export async function GET(request: NextRequest) {
         const errorMsg = `data: ${JSON.stringify({
           type: 'error',
           error: error instanceof Error ? error.message : 'Unknown error',
+          // Clients should hold off reconnecting until Telegram lets us in
+          ...(error instanceof RateLimitedError && {
+            retryAfter: error.retryAfter,
+          }),
           timestamp: Date.now(),
         })}\n\n`;
         controller.enqueue(encoder.encode(errorMsg));
         controller.close();
+        // Replay can fail after we've already subscribed
+        cleanup();
       }
     },
 
     cancel() {
       console.log('Stream cancelled by client');
-      isStreamActive = false;
-      if (heartbeatInterval) {
-        clearInterval(heartbeatInterval);
-      }
-      // Disconnect Telegram client when stream is cancelled
-      if (telegramService) {
-        telegramService.disconnect().catch(console.error);
-      }
+      cleanup();
     },
   });
 
   // Clean up on request abort
   request.signal.addEventListener('abort', () => {
     console.log('Request aborted');
-    isStreamActive = false;
-    if (heartbeatInterval) {
-      clearInterval(heartbeatInterval);
-    }
-    if (telegramService) {
-      telegramService.disconnect().catch(console.error);
-    }
+    cleanup();
   });
 
   return new Response(stream, {
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getSyncWorker } from '@/lib/telegram/sync';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  return NextResponse.json({ success: true, ...getSyncWorker().getStatus() });
+}
+
+// Start a run now rather than waiting for the next interval; it carries
+// on in the background, so poll GET for the outcome
+export async function POST(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const worker = getSyncWorker();
+  worker.runNow().catch((error) => {
+    console.error('Error running background sync:', error);
+  });
+
+  return NextResponse.json(
+    { success: true, ...worker.getStatus() },
+    { status: 202 }
+  );
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveChat } from '@/lib/config';
+import { authorize, canAccess } from '@/lib/auth';
+import { getTelegramService } from '@/lib/telegram/service';
+import { rateLimitedResponse } from '@/lib/telegram/scheduler';
+import { unknownTargetResponse } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const chat = resolveChat(searchParams.get('chatId'));
+
+    if (!chat) {
+      return unknownTargetResponse('chat');
+    }
+    const chatId = chat.id;
+
+    const auth = authorize(request, 'list', { chatId, anyTopic: true });
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const service = getTelegramService(chatId);
+    const topics = (await service.getForumTopics(chatId)).filter((topic) =>
+      canAccess(auth, { chatId, topicId: topic.id })
+    );
+
+    return NextResponse.json({
+      success: true,
+      count: topics.length,
+      topics: topics,
+    });
+  } catch (error) {
+    console.error('Error fetching topics:', error);
+
+    const limited = rateLimitedResponse(error);
+    if (limited) {
+      return limited;
+    }
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch topics',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize } from '@/lib/auth';
+import { getWebhookDispatcher } from '@/lib/telegram/webhooks';
+import { invalidBodyResponse, readJsonObject } from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+
+// Pending retries and dead letters (deliveries that ran out of attempts)
+export async function GET(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const { pending, deadLetters } = getWebhookDispatcher().getQueue();
+
+  return NextResponse.json({
+    success: true,
+    pendingCount: pending.length,
+    deadLetterCount: deadLetters.length,
+    pending,
+    deadLetters,
+  });
+}
+
+// Requeue dead letters: `{ "ids": [...] }`, or every one without a body
+export async function POST(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    if (!body) {
+      return invalidBodyResponse();
+    }
+    const ids = Array.isArray(body.ids) ? body.ids.map(String) : undefined;
+
+    const replayed = getWebhookDispatcher().replay(ids);
+
+    return NextResponse.json({ success: true, replayed });
+  } catch (error) {
+    console.error('Error replaying webhook deliveries:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to replay deliveries',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveTopicTarget } from '@/lib/config';
+import { authorize } from '@/lib/auth';
+import { getWebhookDispatcher } from '@/lib/telegram/webhooks';
+import {
+  invalidBodyResponse,
+  readJsonObject,
+  unknownTargetResponse,
+} from '@/lib/telegram/params';
+
+export const dynamic = 'force-dynamic';
+
+// Secrets are only returned once, when the subscription is created
+const redact = <T extends { secret: string }>({ secret, ...rest }: T) => ({
+  ...rest,
+  hasSecret: Boolean(secret),
+});
+
+export async function GET(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const subscriptions = getWebhookDispatcher().listSubscriptions();
+
+  return NextResponse.json({
+    success: true,
+    count: subscriptions.length,
+    subscriptions: subscriptions.map(redact),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  try {
+    const body = await readJsonObject(request);
+    if (!body) {
+      return invalidBodyResponse();
+    }
+    const url = typeof body.url === 'string' ? body.url : '';
+
+    if (!/^https?:\/\//.test(url)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid webhook URL',
+          details: 'url must be an http(s) URL',
+        },
+        { status: 400 }
+      );
+    }
+
+    const target = resolveTopicTarget(
+      body.chatId ? String(body.chatId) : null,
+      body.topicId ? String(body.topicId) : null
+    );
+
+    if (!target) {
+      return unknownTargetResponse();
+    }
+
+    const subscription = await getWebhookDispatcher().addSubscription({
+      url,
+      chatId: target.chatId,
+      topicId: target.topicId,
+      secret: typeof body.secret === 'string' ? body.secret : undefined,
+    });
+
+    return NextResponse.json({ success: true, subscription });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create webhook',
+        details: errorMessage,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const auth = authorize(request, 'admin', 'admin');
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const id = request.nextUrl.searchParams.get('id');
+
+  if (!id || !(await getWebhookDispatcher().removeSubscription(id))) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Webhook not found',
+        details: `No webhook subscription with id ${id}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, id });
+}
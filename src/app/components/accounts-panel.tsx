@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import type { Sender } from '@/app/components/message-card';
+
+interface AccountStatus {
+  account: string;
+  connected: boolean;
+  user?: Sender;
+  lastSuccessAt?: number;
+  lastError?: { method: string; message: string; at: number };
+  floodWaits: { method: string; until: number }[];
+  streams: number;
+  chats: string[];
+}
+
+const REFRESH_INTERVAL_MS = 10000;
+
+const formatTime = (time?: number) =>
+  time ? new Date(time).toLocaleString() : 'never';
+
+// Health of the Telegram accounts behind the dashboard
+export default function AccountsPanel() {
+  const [accounts, setAccounts] = useState<AccountStatus[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reconnecting, setReconnecting] = useState<string | null>(null);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/telegram/accounts');
+
+      // The session ran out
+      if (response.status === 401) {
+        window.location.assign('/login');
+        return;
+      }
+
+      const data = await response.json();
+
+      if (data.success) {
+        setAccounts(data.accounts);
+        setError(null);
+      } else {
+        setError(data.error || 'Failed to load accounts');
+      }
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+      setError('Failed to connect to server');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAccounts();
+    const interval = setInterval(fetchAccounts, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchAccounts]);
+
+  const reconnect = async (account: string) => {
+    setReconnecting(account);
+    try {
+      const response = await fetch('/api/telegram/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ account }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(`Reconnected ${account}`);
+      } else {
+        toast.error(data.details || data.error || 'Failed to reconnect');
+      }
+      await fetchAccounts();
+    } catch (error) {
+      console.error('Error reconnecting account:', error);
+      toast.error('Failed to connect to server');
+    } finally {
+      setReconnecting(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-4">
+      <div className="mb-4 flex items-center gap-4">
+        <h1 className="text-2xl font-bold">Telegram accounts</h1>
+        <Link href="/" className="text-sm text-blue-500 hover:text-blue-700">
+          Back to messages
+        </Link>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-2 bg-red-50 border border-red-200 rounded text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+      {!accounts && !error && (
+        <div className="text-sm text-gray-500">Loading accounts...</div>
+      )}
+
+      <div className="space-y-3">
+        {accounts?.map((account) => (
+          <div key={account.account} className="p-4 bg-white rounded-lg shadow">
+            <div className="flex items-center gap-3">
+              <span
+                className={`text-sm ${
+                  account.connected ? 'text-green-500' : 'text-gray-400'
+                }`}
+              >
+                {account.connected ? '● Connected' : '○ Disconnected'}
+              </span>
+              <span className="font-semibold">{account.account}</span>
+              {account.user && (
+                <span className="text-sm text-gray-500">
+                  {account.user.displayName}
+                  {account.user.username && ` @${account.user.username}`}
+                </span>
+              )}
+              <button
+                onClick={() => reconnect(account.account)}
+                disabled={reconnecting !== null}
+                className="ml-auto text-sm cursor-pointer text-blue-500 hover:text-blue-700 disabled:opacity-50"
+              >
+                {reconnecting === account.account
+                  ? 'Reconnecting...'
+                  : 'Reconnect'}
+              </button>
+            </div>
+
+            <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-600">
+              <span>
+                Chats: {account.chats.length ? account.chats.join(', ') : '–'}
+              </span>
+              <span>Live streams: {account.streams}</span>
+              <span>Last success: {formatTime(account.lastSuccessAt)}</span>
+              <span>
+                Flood waits:{' '}
+                {account.floodWaits.length
+                  ? account.floodWaits
+                      .map(
+                        (wait) =>
+                          `${wait.method} until ${new Date(
+                            wait.until
+                          ).toLocaleTimeString()}`
+                      )
+                      .join(', ')
+                  : 'none'}
+              </span>
+            </div>
+
+            {account.lastError && (
+              <div className="mt-2 text-sm text-red-600">
+                {account.lastError.method}: {account.lastError.message} (
+                {formatTime(account.lastError.at)})
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
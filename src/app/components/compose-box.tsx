@@ -0,0 +1,100 @@
+'use client';
+
+import { FormEvent, KeyboardEvent, useState } from 'react';
+import type { Message } from '@/app/components/message-card';
+
+// Telegram's limit for one text message
+const MAX_MESSAGE_LENGTH = 4096;
+
+interface ComposeBoxProps {
+  // Title of the topic being posted into
+  topicTitle: string;
+  // Closed topics only take posts from admins; Telegram has the final say
+  closed?: boolean;
+  replyTo: Message | null;
+  onCancelReply: () => void;
+  onSend: (text: string) => void;
+}
+
+export default function ComposeBox({
+  topicTitle,
+  closed,
+  replyTo,
+  onCancelReply,
+  onSend,
+}: ComposeBoxProps) {
+  const [text, setText] = useState('');
+  const trimmed = text.trim();
+  const tooLong = trimmed.length > MAX_MESSAGE_LENGTH;
+
+  const submit = (event?: FormEvent) => {
+    event?.preventDefault();
+    if (!trimmed || tooLong) return;
+
+    onSend(trimmed);
+    setText('');
+  };
+
+  // Ctrl/Cmd+Enter sends; a plain Enter is a new line
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      submit();
+    }
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="mb-4 p-3 bg-white rounded-lg shadow space-y-2"
+    >
+      {replyTo && (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <span className="truncate">
+            Replying to #{replyTo.id}
+            {replyTo.sender && ` from ${replyTo.sender.displayName}`}:{' '}
+            <span className="text-gray-400">
+              {replyTo.text.length > 80
+                ? replyTo.text.slice(0, 80) + '…'
+                : replyTo.text}
+            </span>
+          </span>
+          <button
+            type="button"
+            onClick={onCancelReply}
+            className="ml-auto cursor-pointer text-gray-400 hover:text-gray-600"
+            title="Cancel reply"
+          >
+            ×
+          </button>
+        </div>
+      )}
+      {closed && (
+        <div className="text-xs text-orange-600">
+          This topic is closed; only admins can post in it
+        </div>
+      )}
+      <textarea
+        value={text}
+        onChange={(event) => setText(event.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={`Message ${topicTitle}`}
+        rows={2}
+        className="w-full px-2 py-1 text-sm border border-gray-200 rounded resize-y"
+      />
+      <div className="flex items-center justify-end gap-2">
+        {tooLong && (
+          <span className="text-xs text-red-600">
+            {trimmed.length}/{MAX_MESSAGE_LENGTH} characters
+          </span>
+        )}
+        <button
+          type="submit"
+          disabled={!trimmed || tooLong}
+          className="px-3 py-1 text-sm text-white bg-blue-500 rounded cursor-pointer hover:bg-blue-600 disabled:opacity-50"
+        >
+          {replyTo ? 'Reply' : 'Send'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { ReactNode, useState } from 'react';
+import {
+  buildEntityTree,
+  EntityNode,
+  entityHref,
+} from '@/lib/telegram/formatting';
+import type { MessageEntity } from '@/lib/telegram/types';
+
+function Spoiler({ children }: { children: ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <span
+      onClick={() => setRevealed(true)}
+      className={
+        revealed
+          ? 'rounded bg-gray-100'
+          : 'cursor-pointer rounded bg-gray-700 text-transparent select-none'
+      }
+    >
+      {children}
+    </span>
+  );
+}
+
+function renderNodes(nodes: EntityNode[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    if (typeof node === 'string') {
+      return node;
+    }
+
+    const children = renderNodes(node.children);
+    const href = entityHref(node.entity, node.text);
+
+    if (href) {
+      return (
+        <a
+          key={index}
+          href={href}
+          target="_blank"
+          rel="noreferrer noopener"
+          className="text-blue-600 hover:underline"
+        >
+          {children}
+        </a>
+      );
+    }
+
+    switch (node.entity.type) {
+      case 'bold':
+        return <strong key={index}>{children}</strong>;
+      case 'italic':
+        return <em key={index}>{children}</em>;
+      case 'underline':
+        return <u key={index}>{children}</u>;
+      case 'strike':
+        return <s key={index}>{children}</s>;
+      case 'spoiler':
+        return <Spoiler key={index}>{children}</Spoiler>;
+      case 'code':
+        return (
+          <code
+            key={index}
+            className="rounded bg-gray-100 px-1 font-mono text-sm"
+          >
+            {children}
+          </code>
+        );
+      case 'pre':
+        return (
+          <pre
+            key={index}
+            className="my-1 overflow-x-auto rounded bg-gray-100 p-2 font-mono text-sm"
+          >
+            {children}
+          </pre>
+        );
+      case 'blockquote':
+        return (
+          <blockquote
+            key={index}
+            className="my-1 border-l-2 border-gray-300 pl-2 text-gray-600"
+          >
+            {children}
+          </blockquote>
+        );
+      case 'hashtag':
+      case 'cashtag':
+      case 'bot_command':
+        return (
+          <span key={index} className="text-blue-600">
+            {children}
+          </span>
+        );
+      default:
+        return <span key={index}>{children}</span>;
+    }
+  });
+}
+
+// Message text with its Telegram formatting. Everything goes through React,
+// so message content is never injected as raw HTML.
+export default function FormattedText({
+  text,
+  entities,
+}: {
+  text: string;
+  entities?: MessageEntity[];
+}) {
+  return <>{renderNodes(buildEntityTree(text, entities))}</>;
+}
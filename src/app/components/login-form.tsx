@@ -0,0 +1,76 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface LoginFormProps {
+  // False when only API keys are configured
+  enabled: boolean;
+}
+
+export default function LoginForm({ enabled }: LoginFormProps) {
+  const router = useRouter();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        router.replace('/');
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to sign in');
+        setSubmitting(false);
+      }
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError('Failed to connect to server');
+      setSubmitting(false);
+    }
+  };
+
+  if (!enabled) {
+    return (
+      <div className="max-w-sm p-6 bg-white rounded-lg shadow text-sm text-gray-600">
+        The dashboard login is off. Set DASHBOARD_PASSWORD on the server to use
+        the dashboard; API clients sign in with their keys.
+      </div>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={submit}
+      className="w-full max-w-sm p-6 bg-white rounded-lg shadow space-y-3"
+    >
+      <h1 className="text-lg font-semibold">Sign in</h1>
+      <input
+        type="password"
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
+        placeholder="Dashboard password"
+        autoFocus
+        className="w-full px-2 py-1 text-sm border border-gray-200 rounded"
+      />
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      <button
+        type="submit"
+        disabled={submitting || !password}
+        className="w-full py-1 text-sm text-white bg-blue-500 rounded cursor-pointer hover:bg-blue-600 disabled:opacity-50"
+      >
+        {submitting ? 'Signing in...' : 'Sign in'}
+      </button>
+    </form>
+  );
+}
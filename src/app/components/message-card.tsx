@@ -0,0 +1,290 @@
+'use client';
+
+import { useState } from 'react';
+import FormattedText from '@/app/components/formatted-text';
+import MessageMedia, { Media } from '@/app/components/message-media';
+import type { MessageAction, MessageEntity } from '@/lib/telegram/types';
+
+export interface Sender {
+  id: string;
+  kind: 'user' | 'bot' | 'channel' | 'group' | 'anonymous_admin';
+  displayName: string;
+  username?: string;
+  avatarId?: string;
+}
+
+const SENDER_LABELS: Partial<Record<Sender['kind'], string>> = {
+  bot: 'bot',
+  channel: 'channel',
+  anonymous_admin: 'anonymous admin',
+};
+
+function SenderInfo({
+  sender,
+  fromId,
+  chatId,
+}: {
+  sender?: Sender;
+  fromId?: string;
+  chatId: string | null;
+}) {
+  if (!sender) {
+    return (
+      <span className="text-sm text-gray-500">User: {fromId || 'Unknown'}</span>
+    );
+  }
+
+  const label = SENDER_LABELS[sender.kind];
+
+  return (
+    <span className="flex items-center gap-2 text-sm">
+      {sender.avatarId ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={`/api/telegram/avatars/${sender.id}?photo=${sender.avatarId}${
+            chatId ? `&chatId=${chatId}` : ''
+          }`}
+          alt=""
+          loading="lazy"
+          className="h-6 w-6 rounded-full"
+        />
+      ) : (
+        <span className="flex h-6 w-6 items-center justify-center rounded-full bg-gray-200 text-xs text-gray-600">
+          {sender.displayName.charAt(0).toUpperCase() || '?'}
+        </span>
+      )}
+      <span className="font-medium text-gray-700">
+        {sender.displayName || 'Unknown'}
+      </span>
+      {sender.username && (
+        <span className="text-gray-400">@{sender.username}</span>
+      )}
+      {label && (
+        <span className="rounded bg-gray-100 px-1 text-xs text-gray-500">
+          {label}
+        </span>
+      )}
+    </span>
+  );
+}
+
+export interface Message {
+  id: number;
+  text: string;
+  date: number;
+  fromId?: string;
+  replyToMsgId?: number;
+  editDate?: number;
+  editHistory?: { text: string; date: number }[];
+  deleted?: boolean;
+  media?: Media;
+  sender?: Sender;
+  entities?: MessageEntity[];
+  // Service messages carry the action, with a description as their text
+  action?: MessageAction;
+  // Set on our own message until Telegram confirms it was sent; these
+  // carry a temporary negative id
+  pending?: {
+    clientId: string;
+    status: 'sending' | 'failed';
+    error?: string;
+  };
+}
+
+interface MessageCardProps {
+  chatId: string | null;
+  message: Message;
+  highlighted?: boolean;
+  // Alert rules this message tripped
+  alerts?: string[];
+  // Jump to (or pull in) the message this one replies to
+  onReplyClick?: () => void;
+  // Start a reply to this message in the compose box
+  onReply?: () => void;
+  // A pending message that failed to send
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  // Threaded view: replies nested under this message
+  replyCount?: number;
+  repliesCollapsed?: boolean;
+  onToggleReplies?: () => void;
+}
+
+export default function MessageCard({
+  chatId,
+  message,
+  highlighted,
+  alerts,
+  onReplyClick,
+  onReply,
+  onRetry,
+  onDismiss,
+  replyCount,
+  repliesCollapsed,
+  onToggleReplies,
+}: MessageCardProps) {
+  const [showHistory, setShowHistory] = useState(false);
+  const edited = Boolean(message.editDate || message.editHistory?.length);
+
+  // Service messages are a one-line note between the regular messages
+  if (message.action) {
+    const pinnedId =
+      message.action.type === 'message_pinned'
+        ? message.action.messageId
+        : undefined;
+
+    return (
+      <div
+        id={`message-${message.id}`}
+        className={`py-1 text-center text-xs text-gray-500 ${
+          highlighted ? 'rounded ring-2 ring-yellow-400' : ''
+        }`}
+        title={new Date(message.date * 1000).toLocaleString()}
+      >
+        <span className="font-medium text-gray-600">
+          {message.sender?.displayName || 'Someone'}
+        </span>{' '}
+        {message.text}
+        {pinnedId !== undefined && (
+          <a
+            href={`#message-${pinnedId}`}
+            className="ml-1 text-blue-500 hover:text-blue-700"
+          >
+            #{pinnedId}
+          </a>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`rounded-lg shadow p-4 hover:shadow-md transition-shadow ${
+        message.deleted ? 'bg-gray-100 opacity-70' : 'bg-white'
+      } ${message.pending?.status === 'sending' ? 'opacity-60' : ''} ${
+        message.pending?.status === 'failed' ? 'border border-red-300' : ''
+      } ${highlighted ? 'ring-2 ring-yellow-400' : ''} ${
+        alerts?.length ? 'border-l-4 border-orange-400' : ''
+      }`}
+    >
+      <div className="flex justify-between items-start mb-2">
+        <div className="flex items-center gap-2">
+          <SenderInfo
+            sender={message.sender}
+            fromId={message.fromId}
+            chatId={chatId}
+          />
+          {message.replyToMsgId && (
+            <button
+              onClick={onReplyClick}
+              disabled={!onReplyClick}
+              className="text-xs text-blue-500 cursor-pointer hover:text-blue-700 disabled:cursor-default disabled:hover:text-blue-500"
+            >
+              Reply to #{message.replyToMsgId}
+            </button>
+          )}
+          {message.deleted && (
+            <span className="text-xs text-red-500">Deleted</span>
+          )}
+          {alerts?.map((rule) => (
+            <span
+              key={rule}
+              className="rounded bg-orange-100 px-1 text-xs text-orange-700"
+            >
+              {rule}
+            </span>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          {edited && (
+            <button
+              onClick={() => setShowHistory((show) => !show)}
+              disabled={!message.editHistory?.length}
+              className="text-xs text-gray-400 cursor-pointer hover:text-gray-600 disabled:cursor-default"
+              title={
+                message.editDate
+                  ? `Edited ${new Date(message.editDate * 1000).toLocaleString()}`
+                  : undefined
+              }
+            >
+              edited
+            </button>
+          )}
+          {onReply && !message.pending && !message.deleted && (
+            <button
+              onClick={onReply}
+              className="text-xs text-gray-400 cursor-pointer hover:text-blue-500"
+            >
+              Reply
+            </button>
+          )}
+          <span className="text-xs text-gray-400">
+            {message.pending?.status === 'sending'
+              ? 'Sending...'
+              : new Date(message.date * 1000).toLocaleString()}
+          </span>
+        </div>
+      </div>
+      {message.text && (
+        <p
+          className={`text-gray-800 whitespace-pre-wrap break-words ${
+            message.deleted ? 'line-through' : ''
+          }`}
+        >
+          <FormattedText text={message.text} entities={message.entities} />
+        </p>
+      )}
+      {message.media && chatId && !message.deleted && (
+        <MessageMedia
+          chatId={chatId}
+          messageId={message.id}
+          media={message.media}
+        />
+      )}
+      {message.pending?.status === 'failed' && (
+        <div className="mt-2 flex items-center gap-2 text-xs text-red-600">
+          <span>Not sent: {message.pending.error || 'Unknown error'}</span>
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="cursor-pointer text-blue-500 hover:text-blue-700"
+            >
+              Retry
+            </button>
+          )}
+          {onDismiss && (
+            <button
+              onClick={onDismiss}
+              className="cursor-pointer text-gray-500 hover:text-gray-700"
+            >
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+      {showHistory && message.editHistory && (
+        <ol className="mt-2 space-y-1 border-l-2 border-gray-200 pl-2">
+          {message.editHistory.map((revision, index) => (
+            <li key={index} className="text-xs text-gray-500">
+              <span className="text-gray-400">
+                {new Date(revision.date * 1000).toLocaleString()}:
+              </span>{' '}
+              <span className="whitespace-pre-wrap">{revision.text}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {Boolean(replyCount) && (
+        <button
+          onClick={onToggleReplies}
+          className="mt-2 text-xs text-blue-500 cursor-pointer hover:text-blue-700"
+        >
+          {repliesCollapsed
+            ? `Show ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}`
+            : 'Hide replies'}
+        </button>
+      )}
+    </div>
+  );
+}
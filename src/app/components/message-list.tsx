@@ -1,35 +1,113 @@
 'use client';
 
 import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
 import { toast } from 'sonner';
-
-interface Message {
-  id: number;
-  text: string;
-  date: number;
-  fromId?: string;
-  replyToMsgId?: number;
-}
+import ComposeBox from '@/app/components/compose-box';
+import MessageCard, { Message } from '@/app/components/message-card';
+import ReplyChain, { ReplyChainData } from '@/app/components/reply-chain';
+import StatsPanel from '@/app/components/stats-panel';
+import TopicSidebar, { Chat, Topic } from '@/app/components/topic-sidebar';
 
 interface StreamData {
-  type: 'connected' | 'message' | 'error' | 'ping';
+  type:
+    | 'connected'
+    | 'message'
+    | 'edited'
+    | 'deleted'
+    | 'alert'
+    | 'resumed'
+    | 'topic'
+    | 'error'
+    | 'ping';
   error?: string;
   timestamp?: number;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   [key: string]: any;
 }
 
-export default function MessageList() {
+// Messages loaded on each side of a search result
+const CONTEXT_PAGE_SIZE = 25;
+
+const EXPORT_FORMATS = [
+  { format: 'jsonl', label: 'JSONL' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+];
+
+const DIGEST_PERIODS = [
+  { period: 'daily', label: 'Yesterday' },
+  { period: 'weekly', label: 'Last week' },
+];
+
+// Build an API url, leaving out params that aren't set
+function apiUrl(
+  path: string,
+  params: Record<string, string | number | null | undefined>
+) {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== null && value !== undefined) {
+      query.set(key, String(value));
+    }
+  }
+  const queryString = query.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+interface MessageListProps {
+  // False when auth is disabled and there is no session to end
+  canSignOut: boolean;
+}
+
+export default function MessageList({ canSignOut }: MessageListProps) {
+  // Selected chat and topic live in the URL (as ids or configured aliases);
+  // without them the server defaults are used
+  const searchParams = useSearchParams();
+  const chatParam = searchParams.get('chat');
+  const topicParam = searchParams.get('topic');
+  // Set when jumping to a search result
+  const messageParam = searchParams.get('message');
+
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
   const [connected, setConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastPing, setLastPing] = useState<number>(Date.now());
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [chats, setChats] = useState<Chat[]>([]);
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [activeTopicId, setActiveTopicId] = useState<number | null>(null);
+  const [chatId, setChatId] = useState<string | null>(null);
+  // Names of the alert rules each message tripped
+  const [alerts, setAlerts] = useState<Record<number, string[]>>({});
+  // Threaded view nests replies under the messages they answer
+  const [threaded, setThreaded] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  // Reply id -> the chain it answers, pulled in when that isn't loaded
+  const [replyChains, setReplyChains] = useState<
+    Record<number, ReplyChainData>
+  >({});
+  // Reply parent we last jumped to
+  const [focusedId, setFocusedId] = useState<number | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  // Message the compose box is replying to
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
 
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const reconnectAttemptsRef = useRef(0);
+  // Set when the server is rate limited by Telegram, in milliseconds
+  const retryAfterRef = useRef(0);
   const isActiveRef = useRef(true);
+  const chatParamRef = useRef<string | null>(chatParam);
+  const topicRef = useRef<string | null>(topicParam);
+  const messageRef = useRef<string | null>(messageParam);
+  // Newest message id we've seen, so a reconnect can replay the gap
+  const lastEventIdRef = useRef<number | null>(null);
 
   // Handle visibility change to reconnect when tab becomes active
   useEffect(() => {
@@ -66,14 +144,74 @@ export default function MessageList() {
     return () => clearInterval(checkConnection);
   }, [lastPing, connected]);
 
+  // Load a window of history around one message, newest first like the
+  // regular list, and bring it into view
+  const fetchMessageContext = async (messageId: number) => {
+    const [newer, older] = await Promise.all(
+      [{ after: messageId }, { before: messageId + 1 }].map((cursor) =>
+        fetch(
+          apiUrl('/api/telegram/messages', {
+            chatId: chatParamRef.current,
+            topicId: topicRef.current,
+            limit: CONTEXT_PAGE_SIZE,
+            ...cursor,
+          })
+        ).then((response) => response.json())
+      )
+    );
+
+    if (!newer.success || !older.success) {
+      setError(newer.error || older.error || 'Failed to fetch messages');
+      return;
+    }
+
+    const known = new Set<number>(older.messages.map((m: Message) => m.id));
+    setActiveTopicId(older.topicId);
+    setChatId(older.chatId);
+    setMessages([
+      ...newer.messages.filter((m: Message) => !known.has(m.id)),
+      ...older.messages,
+    ]);
+    setNextCursor(older.nextCursor ?? null);
+
+    requestAnimationFrame(() => {
+      document
+        .getElementById(`message-${messageId}`)
+        ?.scrollIntoView({ block: 'center' });
+    });
+  };
+
   const fetchMessages = async () => {
     try {
       setError(null);
-      const response = await fetch('/api/telegram/messages');
+
+      const messageId = messageRef.current && parseInt(messageRef.current);
+      if (messageId) {
+        await fetchMessageContext(messageId);
+        return;
+      }
+
+      const response = await fetch(
+        apiUrl('/api/telegram/messages', {
+          chatId: chatParamRef.current,
+          topicId: topicRef.current,
+        })
+      );
+
+      // The session ran out
+      if (response.status === 401) {
+        window.location.assign('/login');
+        return;
+      }
+
       const data = await response.json();
 
       if (data.success) {
+        setActiveTopicId(data.topicId);
+        setChatId(data.chatId);
         setMessages(data.messages);
+        lastEventIdRef.current = data.messages[0]?.id ?? null;
+        setNextCursor(data.nextCursor ?? null);
       } else {
         setError(data.error || 'Failed to fetch messages');
       }
@@ -85,6 +223,209 @@ export default function MessageList() {
     }
   };
 
+  const loadOlderMessages = async () => {
+    if (nextCursor === null) return;
+
+    try {
+      setLoadingOlder(true);
+      const response = await fetch(
+        apiUrl('/api/telegram/messages', {
+          chatId: chatParamRef.current,
+          topicId: topicRef.current,
+          before: nextCursor,
+        })
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setMessages((prev) => {
+          const known = new Set(prev.map((m) => m.id));
+          return [
+            ...prev,
+            ...data.messages.filter((m: Message) => !known.has(m.id)),
+          ];
+        });
+        setNextCursor(data.nextCursor ?? null);
+      } else {
+        toast.error(data.error || 'Failed to load older messages');
+      }
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      toast.error('Failed to connect to server');
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // Scroll to the message a reply answers, or show its reply chain above
+  // the reply when it isn't loaded (clicking again hides it)
+  const showReplyParent = async (message: Message) => {
+    const parentId = message.replyToMsgId;
+    if (!parentId) return;
+
+    if (messages.some((m) => m.id === parentId)) {
+      setFocusedId(parentId);
+      document
+        .getElementById(`message-${parentId}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
+
+    if (replyChains[message.id]) {
+      setReplyChains((prev) => {
+        const next = { ...prev };
+        delete next[message.id];
+        return next;
+      });
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        apiUrl(`/api/telegram/messages/${message.id}/thread`, {
+          chatId: chatParamRef.current,
+        })
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setReplyChains((prev) => ({
+          ...prev,
+          [message.id]: {
+            ancestors: data.ancestors,
+            missingParentId: data.missingParentId,
+          },
+        }));
+      } else {
+        toast.error(data.error || 'Failed to load the original message');
+      }
+    } catch (error) {
+      console.error('Error fetching thread:', error);
+      toast.error('Failed to connect to server');
+    }
+  };
+
+  const toggleReplies = (messageId: number) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(messageId)) {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  // Show the message right away and swap in what Telegram sent once the
+  // request (or the stream) confirms it. Retrying reuses the clientId.
+  const sendMessage = async (
+    text: string,
+    replyToMsgId?: number,
+    clientId: string = crypto.randomUUID()
+  ) => {
+    const pending: Message = {
+      id: -Date.now(),
+      text,
+      date: Math.floor(Date.now() / 1000),
+      replyToMsgId,
+      pending: { clientId, status: 'sending' },
+    };
+    setMessages((prev) => [
+      pending,
+      ...prev.filter((m) => m.pending?.clientId !== clientId),
+    ]);
+
+    const fail = (error: string) => {
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.pending?.clientId === clientId
+            ? { ...m, pending: { clientId, status: 'failed', error } }
+            : m
+        )
+      );
+      toast.error(error);
+    };
+
+    try {
+      const response = await fetch('/api/telegram/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chatId,
+          topicId: activeTopicId,
+          text,
+          replyToMsgId,
+        }),
+      });
+
+      // The session ran out
+      if (response.status === 401) {
+        window.location.assign('/login');
+        return;
+      }
+
+      const data = await response.json();
+
+      if (data.success) {
+        const sent: Message = data.message;
+        setMessages((prev) =>
+          // The stream may have delivered it first
+          prev.some((m) => m.id === sent.id)
+            ? prev.filter((m) => m.pending?.clientId !== clientId)
+            : prev.map((m) => (m.pending?.clientId === clientId ? sent : m))
+        );
+      } else {
+        fail(data.details || data.error || 'Failed to send message');
+      }
+    } catch (error) {
+      console.error('Error sending message:', error);
+      fail('Failed to connect to server');
+    }
+  };
+
+  const dismissMessage = (clientId: string) => {
+    setMessages((prev) => prev.filter((m) => m.pending?.clientId !== clientId));
+  };
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      window.location.assign('/login');
+    } catch (error) {
+      console.error('Error signing out:', error);
+      toast.error('Failed to sign out');
+    }
+  };
+
+  const fetchChats = async () => {
+    try {
+      const response = await fetch('/api/telegram/chats');
+      const data = await response.json();
+
+      if (data.success) {
+        setChats(data.chats);
+      }
+    } catch (error) {
+      console.error('Error fetching chats:', error);
+    }
+  };
+
+  const fetchTopics = async () => {
+    try {
+      const response = await fetch(
+        apiUrl('/api/telegram/topics', { chatId: chatParamRef.current })
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setTopics(data.topics);
+      } else {
+        toast.error(data.error || 'Failed to fetch topics');
+      }
+    } catch (error) {
+      console.error('Error fetching topics:', error);
+    }
+  };
+
   const reconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
@@ -96,10 +437,11 @@ export default function MessageList() {
     }
 
     // Exponential backoff for reconnection
-    const delay = Math.min(
-      1000 * Math.pow(2, reconnectAttemptsRef.current),
-      30000
+    const delay = Math.max(
+      Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000),
+      retryAfterRef.current
     );
+    retryAfterRef.current = 0;
     console.log(
       `Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current + 1})`
     );
@@ -119,7 +461,13 @@ export default function MessageList() {
     }
 
     console.log('Setting up EventSource connection...');
-    const eventSource = new EventSource('/api/telegram/stream');
+    const eventSource = new EventSource(
+      apiUrl('/api/telegram/stream', {
+        chatId: chatParamRef.current,
+        topicId: topicRef.current,
+        lastEventId: lastEventIdRef.current,
+      })
+    );
     eventSourceRef.current = eventSource;
 
     eventSource.onopen = () => {
@@ -131,6 +479,13 @@ export default function MessageList() {
       try {
         const data: StreamData = JSON.parse(event.data);
 
+        if (event.lastEventId) {
+          lastEventIdRef.current = Math.max(
+            lastEventIdRef.current ?? 0,
+            parseInt(event.lastEventId)
+          );
+        }
+
         switch (data.type) {
           case 'connected':
             setConnected(true);
@@ -146,19 +501,95 @@ export default function MessageList() {
               date: data.date,
               fromId: data.fromId,
               replyToMsgId: data.replyToMsgId,
+              media: data.media,
+              sender: data.sender,
+              entities: data.entities,
+              action: data.action,
             };
             setMessages((prev) => {
               if (prev.some((m) => m.id === newMessage.id)) {
                 return prev;
               }
-              return [newMessage, ...prev].slice(0, 100); // Keep last 100 messages
+              // Our own message, echoed back before the send request
+              // returned; it takes the pending copy's place
+              const echoed = prev.findIndex(
+                (m) =>
+                  m.pending?.status === 'sending' &&
+                  m.text === newMessage.text &&
+                  m.replyToMsgId === newMessage.replyToMsgId
+              );
+              if (echoed !== -1) {
+                const next = [...prev];
+                next[echoed] = newMessage;
+                return next;
+              }
+              return [newMessage, ...prev];
             });
             break;
 
+          case 'edited':
+            // Update in place; edits to messages we never loaded are ignored
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === data.id
+                  ? {
+                      ...m,
+                      text: data.text,
+                      entities: data.entities,
+                      editDate: data.editDate,
+                      editHistory: data.editHistory,
+                    }
+                  : m
+              )
+            );
+            break;
+
+          case 'deleted':
+            setMessages((prev) =>
+              prev.map((m) =>
+                data.ids.includes(m.id) ? { ...m, deleted: true } : m
+              )
+            );
+            break;
+
+          case 'alert':
+            const ruleNames: string[] = data.matches.map(
+              (match: { ruleName: string }) => match.ruleName
+            );
+            setAlerts((prev) => ({ ...prev, [data.messageId]: ruleNames }));
+            toast.warning(`Alert: ${ruleNames.join(', ')}`, {
+              description: `${data.sender?.displayName || 'Unknown'}: ${
+                data.text.length > 120
+                  ? data.text.slice(0, 120) + '…'
+                  : data.text
+              }`,
+            });
+            break;
+
+          case 'topic':
+            // A topic was created, renamed, closed or reopened
+            fetchTopics();
+            if (data.change === 'created') {
+              toast.info(`New topic: ${data.topic.title}`);
+            }
+            break;
+
           case 'error':
             console.error('Stream error:', data.error);
             setError(data.error || 'Stream error occurred');
             setConnected(false);
+            if (data.retryAfter) {
+              retryAfterRef.current = data.retryAfter * 1000;
+            }
+            break;
+
+          case 'resumed':
+            // More was missed than the server replays; start over
+            if (data.truncated) {
+              fetchMessages();
+            } else if (data.count > 0) {
+              console.log(`Caught up on ${data.count} missed messages`);
+            }
             break;
 
           case 'ping':
@@ -182,8 +613,31 @@ export default function MessageList() {
     };
   }, [reconnect]);
 
+  useEffect(() => {
+    fetchChats();
+  }, []);
+
+  useEffect(() => {
+    chatParamRef.current = chatParam;
+    setTopics([]);
+    fetchTopics();
+  }, [chatParam]);
+
+  // Reload history and restart the stream whenever the selected topic changes
   useEffect(() => {
     isActiveRef.current = true;
+    chatParamRef.current = chatParam;
+    topicRef.current = topicParam;
+    messageRef.current = messageParam;
+    setLoading(true);
+    setMessages([]);
+    setNextCursor(null);
+    setAlerts({});
+    setCollapsed(new Set());
+    setReplyChains({});
+    setFocusedId(null);
+    setReplyTo(null);
+    lastEventIdRef.current = null;
     fetchMessages();
 
     // Setup streaming after initial fetch
@@ -206,85 +660,211 @@ export default function MessageList() {
         eventSourceRef.current = null;
       }
     };
-  }, [setupEventStream]);
+  }, [setupEventStream, chatParam, topicParam, messageParam]);
+
+  const activeTopic = topics.find((topic) => topic.id === activeTopicId);
+
+  // In threaded view, replies to loaded messages move under their parent,
+  // oldest first; everything else keeps the newest-first order
+  const loadedIds = new Set(messages.map((m) => m.id));
+  const isNested = (message: Message) =>
+    threaded &&
+    message.replyToMsgId !== undefined &&
+    loadedIds.has(message.replyToMsgId);
+  const repliesTo = new Map<number, Message[]>();
+  for (const message of [...messages].reverse()) {
+    if (isNested(message)) {
+      const parentId = message.replyToMsgId!;
+      repliesTo.set(parentId, [...(repliesTo.get(parentId) || []), message]);
+    }
+  }
+
+  const renderMessage = (message: Message): React.ReactNode => {
+    const replies = repliesTo.get(message.id) || [];
+    const chain = replyChains[message.id];
+    const pending = message.pending;
 
-  if (loading) {
     return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
-          <p className="mt-4 text-gray-600">Loading messages...</p>
-        </div>
+      <div key={message.id} className="space-y-2">
+        {chain && <ReplyChain chatId={chatId} {...chain} />}
+        <MessageCard
+          chatId={chatId}
+          message={message}
+          highlighted={
+            String(message.id) === messageParam || message.id === focusedId
+          }
+          alerts={alerts[message.id]}
+          onReplyClick={() => showReplyParent(message)}
+          onReply={() => setReplyTo(message)}
+          onRetry={
+            pending &&
+            (() =>
+              sendMessage(message.text, message.replyToMsgId, pending.clientId))
+          }
+          onDismiss={pending && (() => dismissMessage(pending.clientId))}
+          replyCount={replies.length}
+          repliesCollapsed={collapsed.has(message.id)}
+          onToggleReplies={() => toggleReplies(message.id)}
+        />
+        {replies.length > 0 && !collapsed.has(message.id) && (
+          <div className="ml-6 space-y-2 border-l-2 border-gray-200 pl-2">
+            {replies.map(renderMessage)}
+          </div>
+        )}
       </div>
     );
-  }
+  };
 
   return (
-    <div className="max-w-4xl mx-auto p-4">
-      <div className="mb-4">
-        <h1 className="text-2xl font-bold">Telegram General Topic</h1>
-        <div className="flex items-center gap-4 mt-2">
-          <span
-            className={`text-sm ${
-              connected ? 'text-green-500' : 'text-gray-400'
-            }`}
-          >
-            {connected ? '● Connected' : '○ Disconnected'}
-          </span>
-          <span className="text-sm text-gray-500">
-            {messages.length} messages
-          </span>
-          <button
-            onClick={() => {
-              fetchMessages();
-              reconnect();
-              toast.success('Revalidated');
-            }}
-            className="text-sm cursor-pointer text-blue-500 hover:text-blue-700"
-          >
-            Refresh
-          </button>
+    <div className="flex">
+      <TopicSidebar
+        chats={chats}
+        chatParam={chatParam}
+        topics={topics}
+        activeTopicId={activeTopicId}
+      />
+      {loading ? (
+        <div className="flex flex-1 items-center justify-center min-h-screen">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Loading messages...</p>
+          </div>
         </div>
-        {error && (
-          <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-red-600 text-sm">
-            {error}
+      ) : (
+        <div className="flex-1 max-w-4xl mx-auto p-4">
+          <div className="mb-4">
+            <h1 className="text-2xl font-bold">
+              {activeTopic ? activeTopic.title : 'Telegram General Topic'}
+            </h1>
+            <div className="flex items-center gap-4 mt-2">
+              <span
+                className={`text-sm ${
+                  connected ? 'text-green-500' : 'text-gray-400'
+                }`}
+              >
+                {connected ? '● Connected' : '○ Disconnected'}
+              </span>
+              <span className="text-sm text-gray-500">
+                {messages.length} messages
+              </span>
+              <button
+                onClick={() => {
+                  fetchMessages();
+                  reconnect();
+                  toast.success('Revalidated');
+                }}
+                className="text-sm cursor-pointer text-blue-500 hover:text-blue-700"
+              >
+                Refresh
+              </button>
+              <label className="flex items-center gap-1 text-sm text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={threaded}
+                  onChange={(event) => setThreaded(event.target.checked)}
+                />
+                Threads
+              </label>
+              <button
+                onClick={() => setShowStats((show) => !show)}
+                className="text-sm cursor-pointer text-blue-500 hover:text-blue-700"
+              >
+                {showStats ? 'Hide stats' : 'Stats'}
+              </button>
+              <span className="text-sm text-gray-500">
+                Export:{' '}
+                {EXPORT_FORMATS.map(({ format, label }) => (
+                  <a
+                    key={format}
+                    href={apiUrl('/api/telegram/export', {
+                      chatId: chatId,
+                      topicId: activeTopicId,
+                      format,
+                    })}
+                    className="ml-1 text-blue-500 hover:text-blue-700"
+                  >
+                    {label}
+                  </a>
+                ))}
+              </span>
+              <span className="text-sm text-gray-500">
+                Digest:{' '}
+                {DIGEST_PERIODS.map(({ period, label }) => (
+                  <a
+                    key={period}
+                    href={apiUrl('/api/telegram/digest', {
+                      chatId: chatId,
+                      topicId: activeTopicId,
+                      period,
+                      format: 'html',
+                      utcOffset: -new Date().getTimezoneOffset(),
+                    })}
+                    target="_blank"
+                    className="ml-1 text-blue-500 hover:text-blue-700"
+                  >
+                    {label}
+                  </a>
+                ))}
+              </span>
+              <Link
+                href="/accounts"
+                className="ml-auto text-sm text-gray-500 hover:text-gray-700"
+              >
+                Accounts
+              </Link>
+              {canSignOut && (
+                <button
+                  onClick={signOut}
+                  className="text-sm cursor-pointer text-gray-500 hover:text-gray-700"
+                >
+                  Sign out
+                </button>
+              )}
+            </div>
+            {error && (
+              <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-red-600 text-sm">
+                {error}
+              </div>
+            )}
           </div>
-        )}
-      </div>
 
-      <div className="space-y-2  overflow-y-auto">
-        {messages.length === 0 ? (
-          <div className="text-center py-8 text-gray-500">
-            No messages found in this topic
-          </div>
-        ) : (
-          messages.map((message) => (
-            <div
-              key={message.id}
-              className="bg-white rounded-lg shadow p-4 hover:shadow-md transition-shadow"
-            >
-              <div className="flex justify-between items-start mb-2">
-                <div className="flex items-center gap-2">
-                  <span className="text-sm text-gray-500">
-                    User: {message.fromId || 'Unknown'}
-                  </span>
-                  {message.replyToMsgId && (
-                    <span className="text-xs text-blue-500">
-                      Reply to #{message.replyToMsgId}
-                    </span>
-                  )}
-                </div>
-                <span className="text-xs text-gray-400">
-                  {new Date(message.date * 1000).toLocaleString()}
-                </span>
+          {showStats && <StatsPanel chatId={chatId} topicId={activeTopicId} />}
+
+          {chatId && activeTopicId !== null && (
+            <ComposeBox
+              topicTitle={activeTopic ? activeTopic.title : 'General'}
+              closed={activeTopic?.closed}
+              replyTo={replyTo}
+              onCancelReply={() => setReplyTo(null)}
+              onSend={(text) => {
+                sendMessage(text, replyTo?.id);
+                setReplyTo(null);
+              }}
+            />
+          )}
+
+          <div className="space-y-2  overflow-y-auto">
+            {messages.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No messages found in this topic
               </div>
-              <p className="text-gray-800 whitespace-pre-wrap break-words">
-                {message.text}
-              </p>
-            </div>
-          ))
-        )}
-      </div>
+            ) : (
+              messages
+                .filter((message) => !isNested(message))
+                .map(renderMessage)
+            )}
+            {nextCursor !== null && (
+              <button
+                onClick={loadOlderMessages}
+                disabled={loadingOlder}
+                className="w-full py-2 text-sm cursor-pointer text-blue-500 hover:text-blue-700 disabled:text-gray-400"
+              >
+                {loadingOlder ? 'Loading...' : 'Load older messages'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
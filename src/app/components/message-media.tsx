@@ -0,0 +1,143 @@
+'use client';
+
+export interface Media {
+  kind:
+    | 'photo'
+    | 'video'
+    | 'video_note'
+    | 'animation'
+    | 'audio'
+    | 'voice'
+    | 'sticker'
+    | 'document'
+    | 'other';
+  mimeType?: string;
+  size?: number;
+  fileName?: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  hasThumbnail?: boolean;
+}
+
+interface MessageMediaProps {
+  chatId: string;
+  messageId: number;
+  media: Media;
+}
+
+function formatSize(bytes?: number) {
+  if (!bytes) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatDuration(seconds?: number) {
+  if (seconds === undefined) return '';
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, '0')}`;
+}
+
+export default function MessageMedia({
+  chatId,
+  messageId,
+  media,
+}: MessageMediaProps) {
+  const fileUrl = `/api/telegram/media/${chatId}/${messageId}`;
+  const thumbUrl = media.hasThumbnail ? `${fileUrl}?thumb=true` : undefined;
+
+  switch (media.kind) {
+    case 'photo':
+      return (
+        <a href={fileUrl} target="_blank" rel="noreferrer">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={thumbUrl || fileUrl}
+            alt="Photo"
+            loading="lazy"
+            width={media.width}
+            height={media.height}
+            className="mt-2 max-h-64 w-auto rounded"
+          />
+        </a>
+      );
+
+    case 'sticker':
+      // Animated (.tgs) stickers can't be shown by the browser directly
+      if (media.mimeType === 'application/x-tgsticker') {
+        return <p className="mt-2 text-sm text-gray-500">[Sticker]</p>;
+      }
+      return media.mimeType?.startsWith('video/') ? (
+        <video
+          src={fileUrl}
+          autoPlay
+          loop
+          muted
+          playsInline
+          className="mt-2 h-32 w-32"
+        />
+      ) : (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={fileUrl}
+          alt="Sticker"
+          loading="lazy"
+          className="mt-2 h-32 w-32 object-contain"
+        />
+      );
+
+    case 'video':
+    case 'video_note':
+    case 'animation':
+      return (
+        <video
+          src={fileUrl}
+          poster={thumbUrl}
+          controls={media.kind !== 'animation'}
+          autoPlay={media.kind === 'animation'}
+          loop={media.kind === 'animation'}
+          muted={media.kind === 'animation'}
+          preload="none"
+          playsInline
+          className={`mt-2 max-h-64 rounded ${
+            media.kind === 'video_note' ? 'h-48 w-48 rounded-full' : ''
+          }`}
+        />
+      );
+
+    case 'audio':
+    case 'voice':
+      return (
+        <div className="mt-2 flex items-center gap-2">
+          <audio src={fileUrl} controls preload="none" />
+          <span className="text-xs text-gray-500">
+            {media.kind === 'voice' ? 'Voice message' : media.fileName}{' '}
+            {formatDuration(media.duration)}
+          </span>
+        </div>
+      );
+
+    case 'document':
+      return (
+        <a
+          href={fileUrl}
+          download={media.fileName}
+          className="mt-2 flex items-center gap-2 rounded border border-gray-200 p-2 text-sm hover:bg-gray-50"
+        >
+          <span>📎</span>
+          <span className="truncate text-blue-600">
+            {media.fileName || 'Attachment'}
+          </span>
+          <span className="text-xs text-gray-400">
+            {formatSize(media.size)}
+          </span>
+        </a>
+      );
+
+    default:
+      return <p className="mt-2 text-sm text-gray-500">[Unsupported media]</p>;
+  }
+}
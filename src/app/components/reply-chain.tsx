@@ -0,0 +1,34 @@
+'use client';
+
+import MessageCard, { Message } from '@/app/components/message-card';
+
+export interface ReplyChainData {
+  // Oldest first, ending with the direct parent
+  ancestors: Message[];
+  // Set when the chain breaks off at a deleted message
+  missingParentId?: number;
+}
+
+interface ReplyChainProps extends ReplyChainData {
+  chatId: string | null;
+}
+
+// The messages a reply answers, for when they aren't loaded in the list
+export default function ReplyChain({
+  chatId,
+  ancestors,
+  missingParentId,
+}: ReplyChainProps) {
+  return (
+    <div className="ml-4 space-y-1 border-l-2 border-blue-200 pl-2">
+      {missingParentId !== undefined && (
+        <div className="text-xs text-gray-400">
+          #{missingParentId} is no longer available
+        </div>
+      )}
+      {ancestors.map((message) => (
+        <MessageCard key={message.id} chatId={chatId} message={message} />
+      ))}
+    </div>
+  );
+}
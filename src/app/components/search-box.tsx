@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { Message } from '@/app/components/message-card';
+import { topicHref, Topic } from '@/app/components/topic-sidebar';
+
+interface SearchHit extends Message {
+  topicId?: number;
+  score: number;
+}
+
+interface SearchBoxProps {
+  chatParam: string | null;
+  topics: Topic[];
+}
+
+const SEARCH_DELAY_MS = 300;
+
+export default function SearchBox({ chatParam, topics }: SearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const [hasMedia, setHasMedia] = useState(false);
+  const [hasLink, setHasLink] = useState(false);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [total, setTotal] = useState(0);
+  const [searching, setSearching] = useState(false);
+
+  // Debounce typing, and drop responses for queries that were superseded
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits([]);
+      setTotal(0);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const params = new URLSearchParams({ q: query });
+      if (chatParam) params.set('chatId', chatParam);
+      if (hasMedia) params.set('hasMedia', 'true');
+      if (hasLink) params.set('hasLink', 'true');
+
+      try {
+        setSearching(true);
+        const response = await fetch(`/api/telegram/search?${params}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+
+        if (data.success) {
+          setHits(data.hits);
+          setTotal(data.total);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Error searching messages:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [chatParam, query, hasMedia, hasLink]);
+
+  const topicTitle = (topicId?: number) =>
+    topics.find((topic) => topic.id === topicId)?.title ||
+    (topicId ? `Topic ${topicId}` : 'Unknown topic');
+
+  return (
+    <div className="mb-4">
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        placeholder="Search archived messages"
+        className="w-full px-2 py-1 text-sm border border-gray-200 rounded"
+      />
+      <div className="flex gap-3 mt-1 text-xs text-gray-500">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={hasMedia}
+            onChange={(event) => setHasMedia(event.target.checked)}
+          />
+          Media
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={hasLink}
+            onChange={(event) => setHasLink(event.target.checked)}
+          />
+          Links
+        </label>
+        {searching && <span>Searching...</span>}
+      </div>
+      {query.trim() && !searching && (
+        <div className="mt-2">
+          <p className="text-xs text-gray-400 mb-1">
+            {total} {total === 1 ? 'result' : 'results'}
+          </p>
+          <ul className="space-y-1 max-h-96 overflow-y-auto">
+            {hits.map((hit) => (
+              <li key={hit.id}>
+                <Link
+                  href={topicHref(chatParam, hit.topicId, hit.id)}
+                  className="block px-2 py-1 rounded text-sm hover:bg-gray-100"
+                >
+                  <span className="block text-xs text-gray-400">
+                    {topicTitle(hit.topicId)} ·{' '}
+                    {new Date(hit.date * 1000).toLocaleDateString()}
+                  </span>
+                  <span className="block truncate text-gray-700">
+                    {hit.text || hit.media?.fileName || '(no text)'}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Sender } from '@/app/components/message-card';
+
+interface Stats {
+  totalMessages: number;
+  topics: {
+    topicId: number;
+    title?: string;
+    messages: number;
+    senders: number;
+  }[];
+  timeline: { start: number; total: number }[];
+  timelineTruncated: boolean;
+  heatmap: number[][];
+  topPosters: { id: string; sender?: Sender; messages: number }[];
+  responseTime: {
+    questions: number;
+    answered: number;
+    medianSeconds: number | null;
+  };
+  senders: { total: number; firstSeen: number; returning: number };
+}
+
+const RANGES = [
+  { label: '7 days', days: 7, bucket: 'day' },
+  { label: '30 days', days: 30, bucket: 'day' },
+  { label: '90 days', days: 90, bucket: 'week' },
+  { label: 'Year', days: 365, bucket: 'week' },
+  { label: 'All time', days: null, bucket: 'month' },
+];
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 86400) return `${(seconds / 3600).toFixed(1)}h`;
+  return `${(seconds / 86400).toFixed(1)}d`;
+}
+
+function Figure({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div>
+      <div className="text-lg font-semibold text-gray-800">{value}</div>
+      <div className="text-xs text-gray-500">{label}</div>
+    </div>
+  );
+}
+
+// Horizontal bar with a label, for the topic and poster rankings
+function Bar({
+  label,
+  value,
+  max,
+  detail,
+}: {
+  label: string;
+  value: number;
+  max: number;
+  detail?: string;
+}) {
+  return (
+    <li className="text-xs">
+      <div className="flex justify-between text-gray-600">
+        <span className="truncate">{label}</span>
+        <span className="text-gray-400">
+          {value}
+          {detail && ` · ${detail}`}
+        </span>
+      </div>
+      <div className="h-1.5 rounded bg-gray-100">
+        <div
+          className="h-1.5 rounded bg-blue-400"
+          style={{ width: `${max ? (value / max) * 100 : 0}%` }}
+        />
+      </div>
+    </li>
+  );
+}
+
+interface StatsPanelProps {
+  chatId: string | null;
+  // The open topic, for the "this topic" scope
+  topicId: number | null;
+}
+
+// Activity charts for the open chat or topic, from the local archive
+export default function StatsPanel({ chatId, topicId }: StatsPanelProps) {
+  const [range, setRange] = useState(RANGES[1]);
+  const [allTopics, setAllTopics] = useState(false);
+  const [stats, setStats] = useState<Stats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!chatId) return;
+
+    const controller = new AbortController();
+    const query = new URLSearchParams({
+      chatId,
+      bucket: range.bucket,
+      utcOffset: String(-new Date().getTimezoneOffset()),
+    });
+    if (range.days) {
+      query.set(
+        'from',
+        String(Math.floor(Date.now() / 1000) - range.days * 86400)
+      );
+    }
+    if (!allTopics && topicId !== null) {
+      query.set('topicId', String(topicId));
+    }
+
+    fetch(`/api/telegram/stats?${query}`, { signal: controller.signal })
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) {
+          setStats(data);
+          setError(null);
+        } else {
+          setError(data.error || 'Failed to load stats');
+        }
+      })
+      .catch((error) => {
+        if (error.name !== 'AbortError') {
+          console.error('Error fetching stats:', error);
+          setError('Failed to connect to server');
+        }
+      });
+
+    return () => controller.abort();
+  }, [chatId, topicId, range, allTopics]);
+
+  const maxBucket = Math.max(0, ...(stats?.timeline || []).map((b) => b.total));
+  const maxCell = Math.max(0, ...(stats?.heatmap || []).flat());
+
+  return (
+    <div className="mb-4 rounded-lg bg-white p-4 shadow">
+      <div className="mb-3 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+        {RANGES.map((option) => (
+          <button
+            key={option.label}
+            onClick={() => setRange(option)}
+            className={`cursor-pointer ${
+              option === range
+                ? 'font-semibold text-blue-600'
+                : 'hover:text-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={allTopics}
+            onChange={(event) => setAllTopics(event.target.checked)}
+          />
+          All topics
+        </label>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {!stats && !error && (
+        <div className="text-sm text-gray-500">Loading stats...</div>
+      )}
+
+      {stats && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-4 gap-4">
+            <Figure label="messages" value={stats.totalMessages} />
+            <Figure
+              label={`senders (${stats.senders.firstSeen} first seen)`}
+              value={stats.senders.total}
+            />
+            <Figure
+              label="questions answered"
+              value={`${stats.responseTime.answered}/${stats.responseTime.questions}`}
+            />
+            <Figure
+              label="median response"
+              value={
+                stats.responseTime.medianSeconds === null
+                  ? '–'
+                  : formatDuration(stats.responseTime.medianSeconds)
+              }
+            />
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs text-gray-500">
+              Messages per {range.bucket}
+              {stats.timelineTruncated && ' (most recent only)'}
+            </div>
+            <div className="flex h-24 items-end gap-px">
+              {stats.timeline.map((bucket) => (
+                <div
+                  key={bucket.start}
+                  title={`${new Date(bucket.start * 1000).toLocaleDateString()}: ${
+                    bucket.total
+                  }`}
+                  className="flex-1 bg-blue-400"
+                  style={{
+                    height: `${maxBucket ? (bucket.total / maxBucket) * 100 : 0}%`,
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="mb-1 text-xs text-gray-500">
+              Activity by weekday and hour
+            </div>
+            <div className="space-y-px">
+              {stats.heatmap.map((row, day) => (
+                <div key={day} className="flex items-center gap-px">
+                  <span className="w-8 text-xs text-gray-400">
+                    {WEEKDAYS[day]}
+                  </span>
+                  {row.map((count, hour) => (
+                    <div
+                      key={hour}
+                      title={`${WEEKDAYS[day]} ${hour}:00: ${count}`}
+                      className="h-3 flex-1 bg-blue-500"
+                      style={{
+                        opacity: maxCell
+                          ? 0.05 + (count / maxCell) * 0.95
+                          : 0.05,
+                      }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <div className="mb-1 text-xs text-gray-500">Topics</div>
+              <ul className="space-y-1">
+                {stats.topics.map((topic) => (
+                  <Bar
+                    key={topic.topicId}
+                    label={topic.title || `Topic ${topic.topicId}`}
+                    value={topic.messages}
+                    max={stats.topics[0].messages}
+                    detail={`${topic.senders} senders`}
+                  />
+                ))}
+              </ul>
+            </div>
+            <div>
+              <div className="mb-1 text-xs text-gray-500">Top posters</div>
+              <ul className="space-y-1">
+                {stats.topPosters.map((poster) => (
+                  <Bar
+                    key={poster.id}
+                    label={poster.sender?.displayName || poster.id}
+                    value={poster.messages}
+                    max={stats.topPosters[0].messages}
+                  />
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
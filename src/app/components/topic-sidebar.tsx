@@ -0,0 +1,127 @@
+'use client';
+
+import Link from 'next/link';
+import SearchBox from '@/app/components/search-box';
+
+export interface Topic {
+  id: number;
+  title: string;
+  unreadCount: number;
+  closed: boolean;
+  pinned: boolean;
+  iconColor?: number;
+  iconEmoji?: string;
+}
+
+export interface Chat {
+  alias: string;
+  id: string;
+  topics: Record<string, number>;
+  defaultTopicId: number;
+}
+
+interface TopicSidebarProps {
+  chats: Chat[];
+  // Chat alias or id from the URL, null for the default chat
+  chatParam: string | null;
+  topics: Topic[];
+  activeTopicId: number | null;
+}
+
+// Link to a topic (and optionally a message in it), keeping the chat
+export function topicHref(
+  chatParam: string | null,
+  topicId: number | undefined,
+  messageId?: number
+) {
+  const query = new URLSearchParams();
+  if (chatParam) query.set('chat', chatParam);
+  if (topicId !== undefined) query.set('topic', String(topicId));
+  if (messageId !== undefined) query.set('message', String(messageId));
+  return `?${query}`;
+}
+
+function TopicIcon({ topic }: { topic: Topic }) {
+  if (topic.iconEmoji) {
+    return <span className="w-4 text-center">{topic.iconEmoji}</span>;
+  }
+
+  const color =
+    topic.iconColor !== undefined
+      ? `#${topic.iconColor.toString(16).padStart(6, '0')}`
+      : '#9ca3af';
+
+  return (
+    <span
+      className="w-3 h-3 rounded-full shrink-0"
+      style={{ backgroundColor: color }}
+    />
+  );
+}
+
+export default function TopicSidebar({
+  chats,
+  chatParam,
+  topics,
+  activeTopicId,
+}: TopicSidebarProps) {
+  const activeChat =
+    chats.find((chat) => chat.alias === chatParam || chat.id === chatParam) ||
+    (chatParam ? undefined : chats[0]);
+
+  return (
+    <aside className="w-64 shrink-0 p-4 border-r border-gray-200 min-h-screen">
+      {chats.length > 1 && (
+        <nav className="mb-4 space-y-1">
+          <h2 className="text-sm font-semibold text-gray-500 uppercase mb-2">
+            Chats
+          </h2>
+          {chats.map((chat) => (
+            <Link
+              key={chat.id}
+              href={`?chat=${chat.alias}`}
+              className={`block px-2 py-1 rounded text-sm ${
+                chat === activeChat
+                  ? 'bg-blue-50 text-blue-700'
+                  : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {chat.alias}
+            </Link>
+          ))}
+        </nav>
+      )}
+      <SearchBox chatParam={chatParam} topics={topics} />
+      <h2 className="text-sm font-semibold text-gray-500 uppercase mb-2">
+        Topics
+      </h2>
+      {topics.length === 0 ? (
+        <p className="text-sm text-gray-400">No topics loaded</p>
+      ) : (
+        <nav className="space-y-1">
+          {topics.map((topic) => (
+            <Link
+              key={topic.id}
+              href={topicHref(chatParam, topic.id)}
+              className={`flex items-center gap-2 px-2 py-1 rounded text-sm ${
+                topic.id === activeTopicId
+                  ? 'bg-blue-50 text-blue-700'
+                  : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              <TopicIcon topic={topic} />
+              <span className="truncate flex-1">{topic.title}</span>
+              {topic.pinned && <span className="text-xs">📌</span>}
+              {topic.closed && <span className="text-xs">🔒</span>}
+              {topic.unreadCount > 0 && (
+                <span className="text-xs text-gray-400">
+                  {topic.unreadCount}
+                </span>
+              )}
+            </Link>
+          ))}
+        </nav>
+      )}
+    </aside>
+  );
+}
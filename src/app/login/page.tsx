@@ -0,0 +1,20 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import LoginForm from '@/app/components/login-form';
+import { getConfig } from '@/lib/config';
+import { SESSION_COOKIE, verifySession } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export default async function Login() {
+  const cookieStore = await cookies();
+  if (verifySession(cookieStore.get(SESSION_COOKIE)?.value)) {
+    redirect('/');
+  }
+
+  return (
+    <main className="flex min-h-screen items-center justify-center bg-gray-50">
+      <LoginForm enabled={Boolean(getConfig().auth.dashboardPassword)} />
+    </main>
+  );
+}
@@ -1,9 +1,24 @@
+import { Suspense } from 'react';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
 import MessageList from '@/app/components/message-list';
+import { getConfig } from '@/lib/config';
+import { SESSION_COOKIE, verifySession } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export default async function Home() {
+  const cookieStore = await cookies();
+  if (!verifySession(cookieStore.get(SESSION_COOKIE)?.value)) {
+    redirect('/login');
+  }
 
-export default function Home() {
   return (
     <main className="min-h-screen bg-gray-50">
-      <MessageList />
+      {/* MessageList reads the selected topic from the URL */}
+      <Suspense>
+        <MessageList canSignOut={!getConfig().auth.disabled} />
+      </Suspense>
     </main>
   );
 }
@@ -0,0 +1,24 @@
+// Runs once per server process. Validates the configuration up front,
+// opens the topic streams webhook subscriptions need and starts the
+// background sync and digest writer, without waiting for a request to
+// touch any of them.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getConfig } = await import('@/lib/config');
+    try {
+      getConfig();
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      throw error;
+    }
+
+    const { getWebhookDispatcher } = await import('@/lib/telegram/webhooks');
+    getWebhookDispatcher();
+
+    const { getSyncWorker } = await import('@/lib/telegram/sync');
+    getSyncWorker();
+
+    const { getDigestWriter } = await import('@/lib/telegram/digest-writer');
+    getDigestWriter();
+  }
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { getConfig } from './config';
+
+export type AuditAction =
+  | 'read'
+  | 'list'
+  | 'search'
+  | 'stats'
+  | 'stream'
+  | 'export'
+  | 'digest'
+  | 'media'
+  | 'send'
+  | 'admin'
+  | 'login'
+  | 'logout';
+
+export interface AuditEntry {
+  // Epoch milliseconds
+  at: number;
+  // API key name, "dashboard", "local" or "unauthenticated"
+  principal: string;
+  action: AuditAction;
+  path: string;
+  allowed: boolean;
+  chatId?: string;
+  topicId?: number;
+  messageId?: number;
+  // Query, format, date range, ... whatever says what was read
+  details?: Record<string, unknown>;
+  ip?: string;
+}
+
+export interface AuditQuery {
+  principal?: string;
+  chatId?: string;
+  // Only denied requests
+  denied?: boolean;
+  limit?: number;
+}
+
+// Append-only record of who read or exported what, one JSON entry per line
+export class AuditLog {
+  constructor(
+    private file: string = path.join(getConfig().dataDir, 'audit.log')
+  ) {}
+
+  // Losing an entry beats failing the request it describes
+  record(entry: AuditEntry) {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.appendFileSync(this.file, JSON.stringify(entry) + '\n');
+    } catch (error) {
+      console.error('Error writing audit log:', error);
+    }
+  }
+
+  // Matching entries, newest first
+  list(query: AuditQuery = {}): AuditEntry[] {
+    if (!fs.existsSync(this.file)) {
+      return [];
+    }
+
+    const limit = query.limit ?? 100;
+    const lines = fs.readFileSync(this.file, 'utf8').split('\n');
+    const entries: AuditEntry[] = [];
+
+    for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+      if (!lines[i]) continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        // Torn line from an interrupted write
+        continue;
+      }
+      if (
+        (query.principal === undefined ||
+          entry.principal === query.principal) &&
+        (query.chatId === undefined || entry.chatId === query.chatId) &&
+        (!query.denied || !entry.allowed)
+      ) {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+}
+
+const globalForAudit = globalThis as unknown as {
+  auditLog?: AuditLog;
+};
+
+export function getAuditLog() {
+  if (!globalForAudit.auditLog) {
+    globalForAudit.auditLog = new AuditLog();
+  }
+  return globalForAudit.auditLog;
+}
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditAction, getAuditLog } from './audit';
+import { AccessGrant, getConfig } from './config';
+
+export const SESSION_COOKIE = 'session';
+const SESSION_TTL_S = 7 * 24 * 60 * 60;
+
+export interface Principal {
+  // API key name, "dashboard" for a login session, or "local" when auth
+  // is disabled
+  name: string;
+  admin: boolean;
+  // May post into what it can read
+  send: boolean;
+  // "*" for every configured chat
+  allow: AccessGrant[] | '*';
+}
+
+export interface ChatScope {
+  chatId: string;
+  // The whole chat when unset
+  topicId?: number;
+  // Access to any one topic is enough; for routes that filter their
+  // results down to what the caller may see
+  anyTopic?: boolean;
+  messageId?: number;
+  // Posting into the chat or topic rather than reading it
+  send?: boolean;
+}
+
+export type AccessScope =
+  // Any caller that signed in
+  | 'signed-in'
+  // Webhooks, alerts, sync and the audit log
+  | 'admin'
+  | ChatScope;
+
+const DASHBOARD: Principal = {
+  name: 'dashboard',
+  admin: true,
+  send: true,
+  allow: '*',
+};
+const LOCAL: Principal = { name: 'local', admin: true, send: true, allow: '*' };
+
+const sha256 = (value: string) =>
+  crypto.createHash('sha256').update(value).digest();
+
+// Hashing first gives timingSafeEqual equal lengths to compare
+const safeEqual = (a: string, b: string) =>
+  crypto.timingSafeEqual(sha256(a), sha256(b));
+
+// Signs session cookies; kept in the data dir so logins survive restarts
+function getSessionSecret() {
+  const file = path.join(getConfig().dataDir, 'auth', 'session-secret');
+
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    try {
+      fs.writeFileSync(file, crypto.randomBytes(32).toString('hex'), {
+        mode: 0o600,
+        flag: 'wx',
+      });
+    } catch (error) {
+      // Another request created it first
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+  return fs.readFileSync(file, 'utf8');
+}
+
+// The password goes into the signature, so changing it signs everyone out
+function signSession(expires: number) {
+  const password = sha256(getConfig().auth.dashboardPassword).toString('hex');
+
+  return crypto
+    .createHmac('sha256', getSessionSecret())
+    .update(`${expires}.${password}`)
+    .digest('base64url');
+}
+
+export function checkPassword(password: string) {
+  const { dashboardPassword } = getConfig().auth;
+  return Boolean(dashboardPassword) && safeEqual(password, dashboardPassword);
+}
+
+// Cookie for a fresh dashboard login: "<expiry>.<signature>"
+export function createSession(request: NextRequest) {
+  const expires = Math.floor(Date.now() / 1000) + SESSION_TTL_S;
+
+  return {
+    name: SESSION_COOKIE,
+    value: `${expires}.${signSession(expires)}`,
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/',
+    maxAge: SESSION_TTL_S,
+  };
+}
+
+// Whether a session cookie lets its holder into the dashboard
+export function verifySession(token?: string) {
+  const { disabled, dashboardPassword } = getConfig().auth;
+  if (disabled) {
+    return true;
+  }
+
+  const [expires, signature] = (token || '').split('.');
+  return (
+    Boolean(dashboardPassword) &&
+    /^\d+$/.test(expires) &&
+    Number(expires) > Date.now() / 1000 &&
+    safeEqual(signature || '', signSession(Number(expires)))
+  );
+}
+
+// The caller behind a request: an API key, else a dashboard session
+export function authenticate(request: NextRequest): Principal | null {
+  const { disabled, apiKeys } = getConfig().auth;
+  if (disabled) {
+    return LOCAL;
+  }
+
+  const key =
+    request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ||
+    request.headers.get('x-api-key');
+
+  if (key) {
+    // Check every key so the timing doesn't tell which one came close
+    const matches = apiKeys.filter((candidate) =>
+      safeEqual(key, candidate.key)
+    );
+    const match = matches[0];
+    return match
+      ? {
+          name: match.name,
+          admin: match.admin,
+          send: match.send,
+          allow: match.allow,
+        }
+      : null;
+  }
+
+  return verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+    ? DASHBOARD
+    : null;
+}
+
+export function canAccess(principal: Principal, scope: AccessScope) {
+  if (scope === 'signed-in' || principal.admin) {
+    return true;
+  }
+  if (scope === 'admin' || (scope.send && !principal.send)) {
+    return false;
+  }
+
+  // Only admins reach chats that aren't configured
+  if (principal.allow === '*') {
+    return getConfig().chats.some((chat) => chat.id === scope.chatId);
+  }
+
+  return principal.allow.some(
+    (grant) =>
+      grant.chatId === scope.chatId &&
+      (grant.topicId === undefined ||
+        scope.anyTopic ||
+        grant.topicId === scope.topicId)
+  );
+}
+
+// Check a caller that already signed in against another scope, e.g. once
+// a route knows which topic a message is in. Returns the 403 to send back
+// when access is denied. Audited either way.
+export function enforce(
+  request: NextRequest,
+  principal: Principal,
+  action: AuditAction,
+  scope: AccessScope,
+  details?: Record<string, unknown>
+): NextResponse | null {
+  const allowed = canAccess(principal, scope);
+
+  // Every request needs this much; only the denials are worth recording
+  if (scope !== 'signed-in' || !allowed) {
+    getAuditLog().record({
+      at: Date.now(),
+      principal: principal.name,
+      action,
+      path: request.nextUrl.pathname,
+      allowed,
+      ...(typeof scope === 'object' && {
+        chatId: scope.chatId,
+        topicId: scope.topicId,
+        messageId: scope.messageId,
+      }),
+      details,
+      ip: clientIp(request),
+    });
+  }
+
+  if (allowed) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Access denied',
+      details:
+        scope === 'admin'
+          ? `"${principal.name}" may not use this route`
+          : scope !== 'signed-in' && scope.send
+            ? `"${principal.name}" may not post in this chat or topic`
+            : `"${principal.name}" may not read this chat or topic`,
+    },
+    { status: 403 }
+  );
+}
+
+// Identify the caller and check they may do `action` within `scope`.
+// Returns the caller, or the 401/403 response to send back.
+export function authorize(
+  request: NextRequest,
+  action: AuditAction,
+  scope: AccessScope,
+  details?: Record<string, unknown>
+): Principal | NextResponse {
+  const principal = authenticate(request);
+
+  if (!principal) {
+    getAuditLog().record({
+      at: Date.now(),
+      principal: 'unauthenticated',
+      action,
+      path: request.nextUrl.pathname,
+      allowed: false,
+      ip: clientIp(request),
+    });
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Not signed in',
+        details: 'Send an API key or sign in to the dashboard',
+      },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  return enforce(request, principal, action, scope, details) || principal;
+}
+
+export function clientIp(request: NextRequest) {
+  return (
+    request.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined
+  );
+}
@@ -0,0 +1,661 @@
+import fs from 'fs';
+import path from 'path';
+import { GENERAL_TOPIC_ID } from './telegram/topics';
+
+// Server configuration, read from the environment once and validated as a
+// whole so a bad setup fails at startup with every problem listed.
+//
+// Chats are configured either with TELEGRAM_CHATS, a JSON list like
+//
+//   [{ "alias": "main", "id": "-1001234567890",
+//      "topics": { "releases": 42 }, "defaultTopic": "releases" }]
+//
+// or with the single-chat SUPERGROUP_ID / TOPIC_ID pair. The first chat is
+// the default. Every chat gets a "general" alias for topic 1.
+//
+// Groups that different people belong to are read with different Telegram
+// accounts. TELEGRAM_ACCOUNTS lists them, as
+//
+//   [{ "name": "alice", "session": "<string session>" }, ...]
+//
+// and a chat names the account that reads it with "account": "alice"; it
+// is the first account otherwise. Without TELEGRAM_ACCOUNTS there is one
+// "default" account, logged in with TELEGRAM_STRING_SESSION.
+//
+// TELEGRAM_MODE=record captures Telegram traffic to TELEGRAM_FIXTURE and
+// TELEGRAM_MODE=replay serves it back without credentials. Replay keeps
+// its own data dir so fixture data never mixes with the real archive.
+//
+// SYNC_INTERVAL is how often (in seconds) the background sync pulls new
+// messages for every topic; 0 turns it off.
+//
+// DIGESTS lists topic summaries to write to the data dir after every day
+// or week, as
+//
+//   [{ "topic": "main/releases", "period": "weekly", "utcOffset": 120 }]
+//
+// where "topic" is "chat/topic" and utcOffset (minutes east of UTC, 0 by
+// default) says where days begin. Weeks start on Monday.
+//
+// Every API route needs a signed-in caller. DASHBOARD_PASSWORD enables the
+// dashboard login, which can see everything. Machine clients send one of
+// the API_KEYS as "Authorization: Bearer <key>" or X-API-Key:
+//
+//   [{ "name": "ci", "key": "<at least 24 characters>",
+//      "allow": ["main", "support/releases"] }]
+//
+// "allow" lists chats (by alias or id) or single topics ("chat/topic"), or
+// is "*" for every configured chat. Keys with "send": true may also post
+// into those topics, and keys with "admin": true may do anything, including
+// the webhook, alert, sync, account and audit routes. AUTH_DISABLED=true
+// opens everything up, for local development only.
+
+export type TelegramMode = 'live' | 'record' | 'replay';
+
+const TELEGRAM_MODES: TelegramMode[] = ['live', 'record', 'replay'];
+
+const DEFAULT_SYNC_INTERVAL_S = 300;
+// Shorter intervals only burn through the rate budgets
+const MIN_SYNC_INTERVAL_S = 30;
+// Short keys are guessable
+const MIN_API_KEY_LENGTH = 24;
+// The widest UTC offsets in use, in minutes
+const MAX_UTC_OFFSET = 14 * 60;
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export const DIGEST_PERIODS: DigestPeriod[] = ['daily', 'weekly'];
+
+export interface AccountConfig {
+  name: string;
+  // Empty in replay mode
+  session: string;
+}
+
+export interface ChatConfig {
+  alias: string;
+  id: string;
+  // Name of the account that reads the chat
+  account: string;
+  // Topic alias -> topic id
+  topics: Record<string, number>;
+  defaultTopicId: number;
+}
+
+// A chat, or a single topic of it, that an API key may read
+export interface AccessGrant {
+  chatId: string;
+  // Every topic when unset
+  topicId?: number;
+}
+
+export interface ApiKeyConfig {
+  name: string;
+  key: string;
+  // "*" for every configured chat
+  allow: AccessGrant[] | '*';
+  // May post into the chats and topics it can read
+  send: boolean;
+  admin: boolean;
+}
+
+export interface DigestSchedule {
+  chatId: string;
+  topicId: number;
+  period: DigestPeriod;
+  // Minutes east of UTC that days start in
+  utcOffset: number;
+}
+
+export interface AppConfig {
+  telegram: {
+    mode: TelegramMode;
+    // Empty in replay mode
+    apiId: number;
+    apiHash: string;
+    // The first one is the default
+    accounts: AccountConfig[];
+    fixtureFile: string;
+  };
+  dataDir: string;
+  chats: ChatConfig[];
+  sync: {
+    // 0 when background sync is off
+    intervalSeconds: number;
+  };
+  digests: DigestSchedule[];
+  auth: {
+    // Every caller gets full access
+    disabled: boolean;
+    // Empty when the dashboard login is off
+    dashboardPassword: string;
+    apiKeys: ApiKeyConfig[];
+  };
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(
+      `Invalid configuration:\n${problems.map((p) => `  - ${p}`).join('\n')}`
+    );
+    this.name = 'ConfigError';
+  }
+}
+
+const ALIAS_PATTERN = /^[a-z0-9_-]+$/i;
+const CHAT_ID_PATTERN = /^-?\d+$/;
+
+const isTopicId = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) > 0;
+
+// The same supergroup shows up as "-100<id>" and as the bare channel id
+const sameChat = (a: string, b: string) =>
+  a.replace(/^-100/, '') === b.replace(/^-100/, '');
+
+const findChat = (chats: ChatConfig[], ref: string) =>
+  chats.find(
+    (chat) =>
+      chat.alias === ref ||
+      (CHAT_ID_PATTERN.test(ref) && sameChat(chat.id, ref))
+  );
+
+function parseChat(
+  raw: unknown,
+  accounts: AccountConfig[],
+  where: string,
+  problems: string[]
+): ChatConfig | null {
+  if (typeof raw !== 'object' || raw === null) {
+    problems.push(`${where} must be an object`);
+    return null;
+  }
+  const entry = raw as Record<string, unknown>;
+  const id = String(entry.id ?? '');
+
+  if (!CHAT_ID_PATTERN.test(id)) {
+    problems.push(`${where}.id must be a numeric chat id`);
+    return null;
+  }
+
+  const alias = entry.alias === undefined ? id : entry.alias;
+  if (typeof alias !== 'string' || !ALIAS_PATTERN.test(alias)) {
+    problems.push(`${where}.alias may only use letters, digits, _ and -`);
+    return null;
+  }
+
+  const topics: Record<string, number> = { general: GENERAL_TOPIC_ID };
+  if (entry.topics !== undefined) {
+    if (typeof entry.topics !== 'object' || entry.topics === null) {
+      problems.push(`${where}.topics must map aliases to topic ids`);
+      return null;
+    }
+    for (const [topicAlias, topicId] of Object.entries(entry.topics)) {
+      if (!ALIAS_PATTERN.test(topicAlias) || !isTopicId(topicId)) {
+        problems.push(`${where}.topics.${topicAlias} must be a topic id`);
+        continue;
+      }
+      topics[topicAlias] = topicId;
+    }
+  }
+
+  const account = entry.account ?? accounts[0]?.name;
+  if (
+    typeof account !== 'string' ||
+    !accounts.some((candidate) => candidate.name === account)
+  ) {
+    problems.push(`${where}.account is not a configured account`);
+    return null;
+  }
+
+  const chat: ChatConfig = {
+    alias,
+    id,
+    account,
+    topics,
+    defaultTopicId: GENERAL_TOPIC_ID,
+  };
+
+  if (entry.defaultTopic !== undefined) {
+    const defaultTopicId = resolveTopic(chat, String(entry.defaultTopic));
+    if (defaultTopicId === null) {
+      problems.push(`${where}.defaultTopic is not a topic id or alias`);
+    } else {
+      chat.defaultTopicId = defaultTopicId;
+    }
+  }
+
+  return chat;
+}
+
+function parseChats(
+  env: NodeJS.ProcessEnv,
+  accounts: AccountConfig[],
+  problems: string[]
+) {
+  if (!env.TELEGRAM_CHATS) {
+    if (!env.SUPERGROUP_ID) {
+      problems.push('No chats configured: set TELEGRAM_CHATS or SUPERGROUP_ID');
+      return [];
+    }
+
+    if (!CHAT_ID_PATTERN.test(env.SUPERGROUP_ID)) {
+      problems.push('SUPERGROUP_ID must be a numeric chat id');
+      return [];
+    }
+    if (env.TOPIC_ID && !isTopicId(Number(env.TOPIC_ID))) {
+      problems.push('TOPIC_ID must be a topic id');
+      return [];
+    }
+
+    const chat = parseChat(
+      {
+        alias: 'default',
+        id: env.SUPERGROUP_ID,
+        defaultTopic: env.TOPIC_ID || GENERAL_TOPIC_ID,
+      },
+      accounts,
+      'SUPERGROUP_ID',
+      problems
+    );
+    return chat ? [chat] : [];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(env.TELEGRAM_CHATS);
+  } catch {
+    problems.push('TELEGRAM_CHATS is not valid JSON');
+    return [];
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    problems.push('TELEGRAM_CHATS must be a non-empty list of chats');
+    return [];
+  }
+
+  const chats: ChatConfig[] = [];
+  raw.forEach((entry, index) => {
+    const chat = parseChat(
+      entry,
+      accounts,
+      `TELEGRAM_CHATS[${index}]`,
+      problems
+    );
+    if (!chat) return;
+
+    if (chats.some((other) => other.alias === chat.alias)) {
+      problems.push(`Chat alias "${chat.alias}" is used more than once`);
+    } else if (chats.some((other) => sameChat(other.id, chat.id))) {
+      problems.push(`Chat ${chat.id} is configured more than once`);
+    } else {
+      chats.push(chat);
+    }
+  });
+
+  return chats;
+}
+
+function parseAccounts(
+  env: NodeJS.ProcessEnv,
+  mode: TelegramMode,
+  problems: string[]
+): AccountConfig[] {
+  // Replay needs no sessions, only the names chats refer to
+  const needsSession = mode !== 'replay';
+
+  if (!env.TELEGRAM_ACCOUNTS) {
+    if (needsSession && !env.TELEGRAM_STRING_SESSION) {
+      problems.push(
+        'TELEGRAM_STRING_SESSION is not set; run `npm run session login`'
+      );
+    }
+    return [{ name: 'default', session: env.TELEGRAM_STRING_SESSION || '' }];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(env.TELEGRAM_ACCOUNTS);
+  } catch {
+    problems.push('TELEGRAM_ACCOUNTS is not valid JSON');
+    return [];
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    problems.push('TELEGRAM_ACCOUNTS must be a non-empty list of accounts');
+    return [];
+  }
+
+  const accounts: AccountConfig[] = [];
+  raw.forEach((entry, index) => {
+    const where = `TELEGRAM_ACCOUNTS[${index}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+    const { name, session = '' } = entry as Record<string, unknown>;
+
+    if (typeof name !== 'string' || !ALIAS_PATTERN.test(name)) {
+      problems.push(`${where}.name may only use letters, digits, _ and -`);
+      return;
+    }
+    if (typeof session !== 'string' || (needsSession && !session)) {
+      problems.push(
+        `${where}.session is not set; run \`npm run session login -- --account ${name}\``
+      );
+      return;
+    }
+
+    if (accounts.some((other) => other.name === name)) {
+      problems.push(`Account name "${name}" is used more than once`);
+    } else {
+      accounts.push({ name, session });
+    }
+  });
+
+  return accounts;
+}
+
+function parseGrant(
+  raw: unknown,
+  chats: ChatConfig[],
+  where: string,
+  problems: string[]
+): AccessGrant | null {
+  const [chatRef, topicRef, ...rest] =
+    typeof raw === 'string' ? raw.split('/') : [];
+  // Keys only ever reach configured chats
+  const chat = chatRef ? findChat(chats, chatRef) : undefined;
+
+  if (!chat || rest.length > 0) {
+    problems.push(`${where} must be a configured chat or "chat/topic"`);
+    return null;
+  }
+  if (topicRef === undefined) {
+    return { chatId: chat.id };
+  }
+
+  const topicId = resolveTopic(chat, topicRef);
+  if (topicId === null) {
+    problems.push(`${where} names an unknown topic`);
+    return null;
+  }
+  return { chatId: chat.id, topicId };
+}
+
+function parseApiKeys(
+  env: NodeJS.ProcessEnv,
+  chats: ChatConfig[],
+  problems: string[]
+) {
+  if (!env.API_KEYS) {
+    return [];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(env.API_KEYS);
+  } catch {
+    problems.push('API_KEYS is not valid JSON');
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    problems.push('API_KEYS must be a list of keys');
+    return [];
+  }
+
+  const keys: ApiKeyConfig[] = [];
+  raw.forEach((entry, index) => {
+    const where = `API_KEYS[${index}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+    const { name, key, allow, send, admin } = entry as Record<string, unknown>;
+
+    if (typeof name !== 'string' || !ALIAS_PATTERN.test(name)) {
+      problems.push(`${where}.name may only use letters, digits, _ and -`);
+      return;
+    }
+    if (typeof key !== 'string' || key.length < MIN_API_KEY_LENGTH) {
+      problems.push(
+        `${where}.key must be at least ${MIN_API_KEY_LENGTH} characters`
+      );
+      return;
+    }
+    if (allow !== '*' && !Array.isArray(allow)) {
+      problems.push(`${where}.allow must be "*" or a list of chats and topics`);
+      return;
+    }
+
+    const grants =
+      allow === '*'
+        ? '*'
+        : allow.flatMap((grant, grantIndex) => {
+            const parsed = parseGrant(
+              grant,
+              chats,
+              `${where}.allow[${grantIndex}]`,
+              problems
+            );
+            return parsed ? [parsed] : [];
+          });
+
+    if (keys.some((other) => other.name === name)) {
+      problems.push(`API key name "${name}" is used more than once`);
+    } else if (keys.some((other) => other.key === key)) {
+      problems.push(`${where}.key is the same as another key`);
+    } else {
+      keys.push({
+        name,
+        key,
+        allow: grants,
+        send: send === true || admin === true,
+        admin: admin === true,
+      });
+    }
+  });
+
+  return keys;
+}
+
+function parseDigests(
+  env: NodeJS.ProcessEnv,
+  chats: ChatConfig[],
+  problems: string[]
+) {
+  if (!env.DIGESTS) {
+    return [];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(env.DIGESTS);
+  } catch {
+    problems.push('DIGESTS is not valid JSON');
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    problems.push('DIGESTS must be a list of digests');
+    return [];
+  }
+
+  const digests: DigestSchedule[] = [];
+  raw.forEach((entry, index) => {
+    const where = `DIGESTS[${index}]`;
+    if (typeof entry !== 'object' || entry === null) {
+      problems.push(`${where} must be an object`);
+      return;
+    }
+    const { topic, period, utcOffset = 0 } = entry as Record<string, unknown>;
+
+    const target = parseGrant(topic, chats, `${where}.topic`, problems);
+    if (target && target.topicId === undefined) {
+      problems.push(`${where}.topic must name a topic, as "chat/topic"`);
+      return;
+    }
+    if (!DIGEST_PERIODS.includes(period as DigestPeriod)) {
+      problems.push(
+        `${where}.period must be one of: ${DIGEST_PERIODS.join(', ')}`
+      );
+      return;
+    }
+    if (
+      !Number.isInteger(utcOffset) ||
+      Math.abs(utcOffset as number) > MAX_UTC_OFFSET
+    ) {
+      problems.push(`${where}.utcOffset must be minutes east of UTC`);
+      return;
+    }
+
+    if (target) {
+      digests.push({
+        chatId: target.chatId,
+        topicId: target.topicId!,
+        period: period as DigestPeriod,
+        utcOffset: utcOffset as number,
+      });
+    }
+  });
+
+  return digests;
+}
+
+export function readConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const problems: string[] = [];
+  const mode = (env.TELEGRAM_MODE || 'live') as TelegramMode;
+
+  if (!TELEGRAM_MODES.includes(mode)) {
+    problems.push(`TELEGRAM_MODE must be one of: ${TELEGRAM_MODES.join(', ')}`);
+  }
+
+  if (mode !== 'replay') {
+    if (!env.TELEGRAM_API_ID) {
+      problems.push('TELEGRAM_API_ID is not set');
+    } else if (!/^\d+$/.test(env.TELEGRAM_API_ID)) {
+      problems.push('TELEGRAM_API_ID must be a number');
+    }
+    if (!env.TELEGRAM_API_HASH) {
+      problems.push('TELEGRAM_API_HASH is not set');
+    }
+  }
+
+  const accounts = parseAccounts(env, mode, problems);
+  const chats = parseChats(env, accounts, problems);
+
+  const syncInterval = env.SYNC_INTERVAL
+    ? Number(env.SYNC_INTERVAL)
+    : DEFAULT_SYNC_INTERVAL_S;
+  if (
+    !Number.isInteger(syncInterval) ||
+    (syncInterval !== 0 && syncInterval < MIN_SYNC_INTERVAL_S)
+  ) {
+    problems.push(
+      `SYNC_INTERVAL must be 0 (off) or at least ${MIN_SYNC_INTERVAL_S} seconds`
+    );
+  }
+
+  const digests = parseDigests(env, chats, problems);
+
+  const authDisabled = env.AUTH_DISABLED === 'true';
+  const dashboardPassword = env.DASHBOARD_PASSWORD || '';
+  const apiKeys = parseApiKeys(env, chats, problems);
+
+  if (!authDisabled && !dashboardPassword && apiKeys.length === 0) {
+    problems.push(
+      'No way to sign in: set DASHBOARD_PASSWORD and/or API_KEYS, or AUTH_DISABLED=true for local development'
+    );
+  }
+
+  const dataDir = env.DATA_DIR || path.join(process.cwd(), '.data');
+  const fixtureFile =
+    env.TELEGRAM_FIXTURE || path.join(dataDir, 'fixtures', 'telegram.json');
+
+  if (mode === 'replay' && !fs.existsSync(fixtureFile)) {
+    problems.push(
+      `No fixture at ${fixtureFile}; record one with TELEGRAM_MODE=record`
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return {
+    telegram: {
+      mode,
+      apiId: parseInt(env.TELEGRAM_API_ID || '0'),
+      apiHash: env.TELEGRAM_API_HASH || '',
+      accounts,
+      fixtureFile,
+    },
+    dataDir: mode === 'replay' ? path.join(dataDir, 'replay') : dataDir,
+    chats,
+    sync: { intervalSeconds: syncInterval },
+    digests,
+    auth: { disabled: authDisabled, dashboardPassword, apiKeys },
+  };
+}
+
+let config: AppConfig | null = null;
+
+export function getConfig(): AppConfig {
+  if (!config) {
+    config = readConfig();
+  }
+  return config;
+}
+
+// Look a chat up by alias or id; omitted means the default chat.
+// Unconfigured numeric ids are still allowed, with no topic aliases,
+// and are read with the default account.
+export function resolveChat(ref?: string | null): ChatConfig | null {
+  const { chats, telegram } = getConfig();
+
+  if (!ref) {
+    return chats[0];
+  }
+
+  const configured = findChat(chats, ref);
+  if (configured) {
+    return configured;
+  }
+
+  return CHAT_ID_PATTERN.test(ref)
+    ? {
+        alias: ref,
+        id: ref,
+        account: telegram.accounts[0].name,
+        topics: { general: GENERAL_TOPIC_ID },
+        defaultTopicId: GENERAL_TOPIC_ID,
+      }
+    : null;
+}
+
+// Look a topic up by alias or id; omitted means the chat's default topic
+export function resolveTopic(
+  chat: ChatConfig,
+  ref?: string | null
+): number | null {
+  if (!ref) {
+    return chat.defaultTopicId;
+  }
+  if (/^\d+$/.test(ref)) {
+    const topicId = parseInt(ref);
+    return isTopicId(topicId) ? topicId : null;
+  }
+  return chat.topics[ref] ?? null;
+}
+
+export interface TopicTarget {
+  chatId: string;
+  topicId: number;
+}
+
+// Resolve the chatId/topicId request params, or null if either is unknown
+export function resolveTopicTarget(
+  chatRef?: string | null,
+  topicRef?: string | null
+): TopicTarget | null {
+  const chat = resolveChat(chatRef);
+  const topicId = chat && resolveTopic(chat, topicRef);
+
+  return chat && topicId !== null ? { chatId: chat.id, topicId } : null;
+}
@@ -0,0 +1,18 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Imported first by every test: config is read once, on first use, so it
+// has to point at the fixture and a throwaway data directory before that
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'telegram-test-'));
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+process.env.TELEGRAM_MODE = 'replay';
+process.env.TELEGRAM_FIXTURE = path.join(__dirname, 'forum.json');
+process.env.DATA_DIR = dataDir;
+process.env.SUPERGROUP_ID = '-1001234567890';
+process.env.TOPIC_ID = '20';
+process.env.AUTH_DISABLED = 'true';
+
+export const FORUM_FIXTURE = process.env.TELEGRAM_FIXTURE;
+export const FORUM_CHAT_ID = process.env.SUPERGROUP_ID;
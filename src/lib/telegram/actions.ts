@@ -0,0 +1,111 @@
+import { Api } from 'telegram';
+import type { MessageAction, TopicChange } from './types';
+
+export function parseAction(action: Api.TypeMessageAction): MessageAction {
+  if (action instanceof Api.MessageActionChatAddUser) {
+    return {
+      type: 'members_joined',
+      userIds: action.users.map((id) => id.toString()),
+    };
+  }
+  if (action instanceof Api.MessageActionChatJoinedByLink) {
+    return { type: 'members_joined', userIds: [], via: 'link' };
+  }
+  if (action instanceof Api.MessageActionChatJoinedByRequest) {
+    return { type: 'members_joined', userIds: [], via: 'request' };
+  }
+  if (action instanceof Api.MessageActionChatDeleteUser) {
+    return { type: 'member_left', userId: action.userId.toString() };
+  }
+  if (action instanceof Api.MessageActionPinMessage) {
+    return { type: 'message_pinned' };
+  }
+  if (action instanceof Api.MessageActionTopicCreate) {
+    return {
+      type: 'topic_created',
+      title: action.title,
+      iconColor: action.iconColor,
+      iconEmojiId: action.iconEmojiId?.toString(),
+    };
+  }
+  if (action instanceof Api.MessageActionTopicEdit) {
+    return {
+      type: 'topic_edited',
+      title: action.title,
+      iconEmojiId: action.iconEmojiId?.toString(),
+      closed: action.closed,
+      hidden: action.hidden,
+    };
+  }
+  if (action instanceof Api.MessageActionChatEditTitle) {
+    return { type: 'chat_title_changed', title: action.title };
+  }
+  if (action instanceof Api.MessageActionChatEditPhoto) {
+    return { type: 'chat_photo_changed' };
+  }
+  if (action instanceof Api.MessageActionChatDeletePhoto) {
+    return { type: 'chat_photo_removed' };
+  }
+
+  return {
+    type: 'other',
+    name: action.className.replace(/^MessageAction/, ''),
+  };
+}
+
+// What the sender did, to follow their name ("joined the group")
+export function describeAction(action: MessageAction, fromId?: string): string {
+  switch (action.type) {
+    case 'members_joined': {
+      const others = action.userIds.filter((id) => id !== fromId);
+      if (others.length === 0) {
+        return action.via === 'link'
+          ? 'joined the group via an invite link'
+          : 'joined the group';
+      }
+      return `added ${others.length} member${others.length === 1 ? '' : 's'}`;
+    }
+    case 'member_left':
+      return action.userId === fromId ? 'left the group' : 'removed a member';
+    case 'message_pinned':
+      return 'pinned a message';
+    case 'topic_created':
+      return `created the topic “${action.title}”`;
+    case 'topic_edited':
+      if (action.title !== undefined) {
+        return `renamed the topic to “${action.title}”`;
+      }
+      if (action.closed !== undefined) {
+        return action.closed ? 'closed the topic' : 'reopened the topic';
+      }
+      if (action.hidden !== undefined) {
+        return action.hidden ? 'hid the topic' : 'unhid the topic';
+      }
+      return 'changed the topic icon';
+    case 'chat_title_changed':
+      return `renamed the group to “${action.title}”`;
+    case 'chat_photo_changed':
+      return 'changed the group photo';
+    case 'chat_photo_removed':
+      return 'removed the group photo';
+    case 'other':
+      return `[${action.name}]`;
+  }
+}
+
+// How a service message changes its topic, if it does
+export function topicChange(action: MessageAction): TopicChange | null {
+  if (action.type === 'topic_created') {
+    return 'created';
+  }
+  if (action.type !== 'topic_edited') {
+    return null;
+  }
+  if (action.title !== undefined) {
+    return 'renamed';
+  }
+  if (action.closed !== undefined) {
+    return action.closed ? 'closed' : 'reopened';
+  }
+  return 'edited';
+}
@@ -0,0 +1,300 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { matchesSender } from './senders';
+import { DATA_DIR, normalizeChatId } from './store';
+import type { ParsedMessage } from './types';
+import { getConfig, resolveChat } from '../config';
+
+const RULES_FILE = path.join(DATA_DIR, 'alerts.json');
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // Whole words or phrases, case-insensitive
+  keywords: string[];
+  // Regex sources, compiled case-insensitive
+  patterns: string[];
+  // Sender ids or @usernames. With an allow list only those senders can
+  // trigger the rule; the deny list always wins.
+  allowSenders: string[];
+  denySenders: string[];
+  // Every chat when unset
+  chatId?: string;
+  // Topics of that chat; empty means every topic
+  topicIds: number[];
+  createdAt: number;
+}
+
+// A null chatId puts a rule back on every chat
+export type AlertRuleInput = Partial<
+  Omit<AlertRule, 'id' | 'createdAt' | 'chatId'>
+> & { chatId?: string | null };
+
+export interface AlertMatch {
+  ruleId: string;
+  ruleName: string;
+  // The text that matched, for highlighting
+  terms: string[];
+}
+
+const escapeRegex = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keywords only match at word boundaries, so "down" doesn't fire on
+// "download". Built with the constructor so the unicode flag isn't
+// checked against the compile target.
+const keywordRegex = (keyword: string) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}_])${escapeRegex(keyword.trim())}(?![\\p{L}\\p{N}_])`,
+    'giu'
+  );
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+// Returns a description of what's wrong with a new rule, or with the
+// changes to `existing`, or null if it's valid
+export function validateAlertRule(
+  input: unknown,
+  existing?: AlertRule
+): string | null {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return 'The rule must be a JSON object';
+  }
+  const rule = input as AlertRuleInput;
+
+  if (rule.name !== undefined && typeof rule.name !== 'string') {
+    return 'name must be a string';
+  }
+  for (const field of [
+    'keywords',
+    'patterns',
+    'allowSenders',
+    'denySenders',
+  ] as const) {
+    if (rule[field] !== undefined && !isStringList(rule[field])) {
+      return `${field} must be a list of strings`;
+    }
+  }
+  if (
+    rule.topicIds !== undefined &&
+    !(
+      Array.isArray(rule.topicIds) &&
+      rule.topicIds.every((id) => Number.isInteger(id))
+    )
+  ) {
+    return 'topicIds must be a list of topic ids';
+  }
+  if (
+    rule.chatId !== undefined &&
+    rule.chatId !== null &&
+    typeof rule.chatId !== 'string'
+  ) {
+    return 'chatId must be a chat alias or id';
+  }
+  if (rule.chatId && !resolveChat(rule.chatId)) {
+    return `Unknown chat: ${rule.chatId}`;
+  }
+  // Topic ids only mean something within one chat
+  const chatId =
+    rule.chatId === undefined ? existing?.chatId : rule.chatId || undefined;
+  if ((rule.topicIds ?? existing?.topicIds ?? []).length > 0 && !chatId) {
+    return 'topicIds need a chatId';
+  }
+  if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  for (const pattern of rule.patterns || []) {
+    try {
+      new RegExp(pattern, 'gi');
+    } catch {
+      return `Invalid pattern: ${pattern}`;
+    }
+  }
+
+  return null;
+}
+
+interface CompiledRule {
+  rule: AlertRule;
+  regexes: RegExp[];
+}
+
+// Alert rules persisted as one JSON file, compiled once per change
+export class AlertRules {
+  private rules: CompiledRule[] = [];
+
+  constructor(private file: string = RULES_FILE) {
+    if (fs.existsSync(file)) {
+      const rules: AlertRule[] = JSON.parse(fs.readFileSync(file, 'utf8'));
+      // Rules from before there were several chats meant the default one
+      for (const rule of rules) {
+        if (rule.chatId === undefined && rule.topicIds.length > 0) {
+          rule.chatId = getConfig().chats[0]?.id;
+        }
+      }
+      this.rules = rules.map(compileRule);
+    }
+  }
+
+  private save() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmpFile = `${this.file}.tmp`;
+    fs.writeFileSync(
+      tmpFile,
+      JSON.stringify(
+        this.rules.map(({ rule }) => rule),
+        null,
+        2
+      )
+    );
+    fs.renameSync(tmpFile, this.file);
+  }
+
+  list(): AlertRule[] {
+    return this.rules.map(({ rule }) => rule);
+  }
+
+  get(id: string): AlertRule | undefined {
+    return this.rules.find(({ rule }) => rule.id === id)?.rule;
+  }
+
+  // Input must have passed validateAlertRule
+  create(input: AlertRuleInput): AlertRule {
+    const rule: AlertRule = {
+      id: crypto.randomUUID(),
+      name: input.name || 'Untitled rule',
+      enabled: input.enabled ?? true,
+      keywords: input.keywords || [],
+      patterns: input.patterns || [],
+      allowSenders: input.allowSenders || [],
+      denySenders: input.denySenders || [],
+      chatId: ruleChatId(input.chatId),
+      topicIds: input.topicIds || [],
+      createdAt: Date.now(),
+    };
+
+    this.rules.push(compileRule(rule));
+    this.save();
+
+    return rule;
+  }
+
+  // Only the fields set in `input` change, which must have passed
+  // validateAlertRule against the rule
+  update(id: string, input: AlertRuleInput): AlertRule | null {
+    const index = this.rules.findIndex(({ rule }) => rule.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const current = this.rules[index].rule;
+    const rule: AlertRule = {
+      id,
+      name: input.name ?? current.name,
+      enabled: input.enabled ?? current.enabled,
+      keywords: input.keywords ?? current.keywords,
+      patterns: input.patterns ?? current.patterns,
+      allowSenders: input.allowSenders ?? current.allowSenders,
+      denySenders: input.denySenders ?? current.denySenders,
+      chatId:
+        input.chatId === undefined ? current.chatId : ruleChatId(input.chatId),
+      topicIds: input.topicIds ?? current.topicIds,
+      createdAt: current.createdAt,
+    };
+    this.rules[index] = compileRule(rule);
+    this.save();
+
+    return rule;
+  }
+
+  delete(id: string) {
+    const before = this.rules.length;
+    this.rules = this.rules.filter(({ rule }) => rule.id !== id);
+    if (this.rules.length === before) {
+      return false;
+    }
+
+    this.save();
+    return true;
+  }
+
+  // Every enabled rule a message posted in `chatId` triggers
+  evaluate(chatId: string, message: ParsedMessage): AlertMatch[] {
+    const matches: AlertMatch[] = [];
+
+    for (const { rule, regexes } of this.rules) {
+      if (!rule.enabled || !inScope(rule, chatId, message)) continue;
+
+      const terms = new Set<string>();
+      for (const regex of regexes) {
+        for (const match of message.text.matchAll(regex)) {
+          if (match[0]) terms.add(match[0]);
+        }
+      }
+
+      // A rule without any text conditions watches its allowed senders
+      const watchesSenders =
+        regexes.length === 0 && rule.allowSenders.length > 0;
+
+      if (terms.size > 0 || watchesSenders) {
+        matches.push({
+          ruleId: rule.id,
+          ruleName: rule.name,
+          terms: Array.from(terms),
+        });
+      }
+    }
+
+    return matches;
+  }
+}
+
+function compileRule(rule: AlertRule): CompiledRule {
+  return {
+    rule,
+    regexes: [
+      ...rule.keywords.filter((k) => k.trim()).map(keywordRegex),
+      ...rule.patterns.map((pattern) => new RegExp(pattern, 'gi')),
+    ],
+  };
+}
+
+// Rules keep the chat's id, whether they were given its alias or id
+function ruleChatId(ref?: string | null) {
+  return (ref && resolveChat(ref)?.id) || undefined;
+}
+
+function inScope(rule: AlertRule, chatId: string, message: ParsedMessage) {
+  if (
+    rule.chatId !== undefined &&
+    normalizeChatId(rule.chatId) !== normalizeChatId(chatId)
+  ) {
+    return false;
+  }
+  if (
+    rule.topicIds.length > 0 &&
+    (message.topicId === undefined || !rule.topicIds.includes(message.topicId))
+  ) {
+    return false;
+  }
+  if (rule.denySenders.some((sender) => matchesSender(message, sender))) {
+    return false;
+  }
+  return (
+    rule.allowSenders.length === 0 ||
+    rule.allowSenders.some((sender) => matchesSender(message, sender))
+  );
+}
+
+const globalForAlerts = globalThis as unknown as { alertRules?: AlertRules };
+
+export function getAlertRules() {
+  if (!globalForAlerts.alertRules) {
+    globalForAlerts.alertRules = new AlertRules();
+  }
+  return globalForAlerts.alertRules;
+}
@@ -0,0 +1,62 @@
+import { FORUM_CHAT_ID, FORUM_FIXTURE } from './__fixtures__/env';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ReplayTelegramService } from './replay';
+
+// parseMessage runs on everything Telegram sends, so it's tested through
+// the replay service, which reads the recorded messages like live ones
+const service = new ReplayTelegramService(
+  { name: 'test', session: '' },
+  FORUM_FIXTURE
+);
+
+const parse = async (id: number) => {
+  const [message] = await service.getMessages(FORUM_CHAT_ID, [id]);
+  assert.ok(message, `message ${id} is in the fixture`);
+  return message;
+};
+
+describe('parseMessage', () => {
+  it('parses a message with its sender', async () => {
+    const message = await parse(10);
+
+    assert.equal(message.text, 'Hello in General');
+    assert.equal(message.date, 1700000000);
+    assert.equal(message.fromId, '42');
+    assert.equal(message.topicId, 1);
+    assert.equal(message.replyToMsgId, undefined);
+    assert.deepEqual(message.sender, {
+      id: '42',
+      kind: 'user',
+      displayName: 'Ada Lovelace',
+      username: 'ada',
+      // No profile photo was recorded
+      avatarId: undefined,
+    });
+  });
+
+  it('keeps the topic, reply and formatting of a topic post', async () => {
+    const post = await parse(21);
+    assert.equal(post.topicId, 20);
+    assert.equal(post.replyToMsgId, undefined);
+    assert.deepEqual(post.entities, [{ type: 'bold', offset: 0, length: 4 }]);
+
+    const reply = await parse(22);
+    assert.equal(reply.topicId, 20);
+    assert.equal(reply.replyToMsgId, 21);
+  });
+
+  it('describes service messages', async () => {
+    const created = await parse(20);
+    assert.equal(created.topicId, 20);
+    assert.equal(created.action?.type, 'topic_created');
+
+    const pinned = await parse(24);
+    assert.equal(pinned.topicId, 20);
+    assert.deepEqual(pinned.action, { type: 'message_pinned', messageId: 21 });
+  });
+
+  it('leaves out ids that are not in the chat', async () => {
+    assert.deepEqual(await service.getMessages(FORUM_CHAT_ID, [999]), []);
+  });
+});
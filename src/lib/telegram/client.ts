@@ -1,39 +1,91 @@
 import { TelegramClient, Api } from 'telegram';
 import { StringSession } from 'telegram/sessions';
-import { NewMessage, NewMessageEvent } from 'telegram/events';
+import { NewMessage, NewMessageEvent, Raw } from 'telegram/events';
+import {
+  EditedMessage,
+  EditedMessageEvent,
+} from 'telegram/events/EditedMessage';
+import {
+  DeletedMessage,
+  DeletedMessageEvent,
+} from 'telegram/events/DeletedMessage';
 import bigInt from 'big-integer';
+import { generateRandomLong } from 'telegram/Helpers';
 
-interface ParsedMessage {
-  id: number;
-  text: string;
-  date: number;
-  fromId?: string;
-  replyToMsgId?: number;
-  topicId?: number;
-}
+import type {
+  AccountHealth,
+  ForumTopicInfo,
+  MessageMedia,
+  MessagePage,
+  MessagePageOptions,
+  MessageSender,
+  ParsedMessage,
+  TopicStreamEvent,
+} from './types';
+import { getMessageStore, MessageStore, normalizeChatId } from './store';
+import { parseMedia, pickThumbnail } from './media';
+import { parseEntities } from './entities';
+import { describeAction, parseAction, topicChange } from './actions';
+import { isSenderEntity, SenderCache, senderFromEntity } from './senders';
+import { GENERAL_TOPIC_ID, messageTopicId, replyToMessageId } from './topics';
+import { FixtureRecorder } from './fixtures';
+import { RequestScheduler } from './scheduler';
+import { sendFailure } from './compose';
+import { AccountConfig, getConfig } from '../config';
+
+// Telegram caps history requests at 100 messages per call
+export const MAX_PAGE_SIZE = 100;
+// How many streamed message ids we remember to avoid sending one twice
+const RECENT_MESSAGE_IDS = 200;
 
-interface ForumTopicInfo {
-  id: number;
-  title: string;
-  unreadCount: number;
-  lastMessageId?: number;
-  date: number;
-  closed: boolean;
-  pinned: boolean;
+interface TopicSubscription {
+  chatId: string;
+  topicId: number;
+  // Whether changes to the chat's other topics are passed on too
+  allTopics: boolean;
+  onEvent: (event: TopicStreamEvent) => void;
 }
 
+// One Telegram account: its connection, rate budgets and live streams.
+// Every account shares the one message store.
 export class TelegramService {
   private client: TelegramClient | null = null;
   private apiId: number;
   private apiHash: string;
   private stringSession: StringSession;
+  protected store: MessageStore;
+  private connecting: Promise<TelegramClient> | null = null;
+  protected senders = new SenderCache();
+  private scheduler = new RequestScheduler();
+  // The Telegram user the session belongs to, once connected
+  private user?: MessageSender;
+  private connectError?: AccountHealth['lastError'];
 
-  constructor() {
-    this.apiId = parseInt(process.env.TELEGRAM_API_ID!);
-    this.apiHash = process.env.TELEGRAM_API_HASH!;
-    this.stringSession = new StringSession(
-      process.env.TELEGRAM_STRING_SESSION || ''
-    );
+  // Live stream subscribers, all fed by a single Telegram event handler
+  private subscriptions = new Map<number, TopicSubscription>();
+  private nextSubscriptionId = 1;
+  // "<chat>:<id>" of the latest new messages streamed. Messages we send are
+  // streamed straight away, and again if Telegram pushes them back to us.
+  private recentMessageIds: string[] = [];
+  private handlerClient: TelegramClient | null = null;
+  private newMessageFilter = new NewMessage({});
+  private editedMessageFilter = new EditedMessage({});
+  private deletedMessageFilter = new DeletedMessage({});
+  // NewMessage skips service messages, so they come in as raw updates
+  private serviceMessageFilter = new Raw({
+    types: [Api.UpdateNewChannelMessage],
+  });
+
+  // The recorder is set in record mode, to capture traffic for replay
+  constructor(
+    public readonly account: AccountConfig,
+    private recorder?: FixtureRecorder
+  ) {
+    this.store = getMessageStore();
+    const { apiId, apiHash } = getConfig().telegram;
+    this.apiId = apiId;
+    this.apiHash = apiHash;
+    this.stringSession = new StringSession(account.session);
   }
 
   async connect() {
@@ -41,65 +93,202 @@ export class TelegramService {
       return this.client;
     }
 
+    // Concurrent callers share one connection attempt
+    if (!this.connecting) {
+      this.connecting = this.openClient()
+        .catch((error) => {
+          this.connectError = {
+            method: 'connect',
+            message: error instanceof Error ? error.message : String(error),
+            at: Date.now(),
+          };
+          throw error;
+        })
+        .finally(() => {
+          this.connecting = null;
+        });
+    }
+    return this.connecting;
+  }
+
+  private async openClient() {
     this.client = new TelegramClient(
       this.stringSession,
       this.apiId,
       this.apiHash,
       {
         connectionRetries: 5,
+        // Flood waits are left to the scheduler, which holds back every
+        // caller of the method rather than stalling just this one
+        floodSleepThreshold: 0,
       }
     );
 
     await this.client.connect();
-    console.log('Connected to Telegram');
+
+    // Otherwise a dead session only shows up later as odd API errors
+    if (!(await this.client.checkAuthorization())) {
+      throw new Error(
+        `Telegram session of account "${this.account.name}" is not authorized; run \`npm run session login -- --account ${this.account.name}\``
+      );
+    }
+
+    const me = await this.client.getMe();
+    this.user = senderFromEntity(me);
+    console.log(
+      `Connected to Telegram as ${this.user.displayName} (account "${this.account.name}")`
+    );
+
+    // A replacement client needs the stream handler re-attached
+    if (this.subscriptions.size > 0) {
+      this.attachStreamHandlers(this.client);
+    }
     return this.client;
   }
 
   async disconnect() {
     if (this.client) {
+      this.detachStreamHandlers();
       await this.client.disconnect();
       this.client = null;
     }
   }
 
+  // Drop the connection and open a fresh one; live streams carry on
+  async reconnect() {
+    await this.disconnect();
+    return this.connect();
+  }
+
+  // Connection state and recent trouble, for the accounts admin page
+  getHealth(): AccountHealth {
+    const { floodWaits, lastSuccessAt, lastError } = this.scheduler.getStatus();
+    const errors = [lastError, this.connectError].flatMap((error) =>
+      error ? [error] : []
+    );
+
+    return {
+      account: this.account.name,
+      connected: Boolean(this.client?.connected),
+      user: this.user,
+      lastSuccessAt,
+      lastError: errors.sort((a, b) => b.at - a.at)[0],
+      floodWaits,
+      streams: this.subscriptions.size,
+    };
+  }
+
+  // Telegram requests go through the scheduler. Requests made with the same
+  // key at the same time (the same topic page, say) share one round trip.
+  private invoke<R extends Api.AnyRequest>(
+    request: R,
+    key: string | null = null
+  ): Promise<R['__response']> {
+    return this.scheduler.run(request.className, key, async () => {
+      const client = await this.connect();
+      return client.invoke(request);
+    });
+  }
+
+  private getEntity(peer: string | number | Api.TypePeer) {
+    const id =
+      typeof peer === 'object' ? this.extractPeerId(peer) : peer.toString();
+
+    return this.scheduler.run('getEntity', `entity:${id}`, async () => {
+      const client = await this.connect();
+      return client.getEntity(peer);
+    });
+  }
+
   private parseMessage(msg: Api.TypeMessage): ParsedMessage | null {
     if (msg instanceof Api.Message) {
-      // Extract topic ID if this is a forum message
-      let topicId: number | undefined;
-      if (msg.replyTo && 'replyToTopId' in msg.replyTo) {
-        topicId = msg.replyTo.replyToTopId;
-      } else if (
-        msg.replyTo &&
-        'forumTopic' in msg.replyTo &&
-        msg.replyTo.forumTopic
-      ) {
-        topicId = msg.replyTo.replyToMsgId;
-      }
-
       return {
         id: msg.id,
         text: msg.message || '',
         date: msg.date,
         fromId: msg.fromId ? this.extractPeerId(msg.fromId) : undefined,
-        replyToMsgId:
-          msg.replyTo && 'replyToMsgId' in msg.replyTo
-            ? msg.replyTo.replyToMsgId
-            : undefined,
-        topicId: topicId,
+        editDate: msg.editDate,
+        media: parseMedia(msg.media),
+        entities: parseEntities(msg.entities),
+        replyToMsgId: replyToMessageId(msg),
+        topicId: messageTopicId(msg),
       };
     } else if (msg instanceof Api.MessageService) {
+      const fromId = msg.fromId ? this.extractPeerId(msg.fromId) : undefined;
+      const action = parseAction(msg.action);
+      if (action.type === 'message_pinned') {
+        action.messageId = replyToMessageId(msg);
+      }
+
       return {
         id: msg.id,
-        text: '[Service Message]',
+        text: describeAction(action, fromId),
         date: msg.date,
-        fromId: msg.fromId ? this.extractPeerId(msg.fromId) : undefined,
+        fromId: fromId,
+        topicId: messageTopicId(msg),
+        action: action,
       };
     }
 
     return null;
   }
 
-  private extractPeerId(peer: Api.TypePeer): string {
+  // parseMessage plus the sender's profile
+  private async parseMessageWithSender(
+    msg: Api.TypeMessage
+  ): Promise<ParsedMessage | null> {
+    const parsed = this.parseMessage(msg);
+    if (
+      parsed &&
+      (msg instanceof Api.Message || msg instanceof Api.MessageService)
+    ) {
+      parsed.sender = await this.resolveSender(msg);
+    }
+    return parsed;
+  }
+
+  // Look the sender up in the profile cache, asking Telegram only on a miss.
+  // Anonymous admins post as the group itself, optionally with a signature.
+  private async resolveSender(
+    msg: Api.Message | Api.MessageService
+  ): Promise<MessageSender | undefined> {
+    const chatPeerId = this.extractPeerId(msg.peerId);
+    const peer = msg.fromId || msg.peerId;
+    const peerId = this.extractPeerId(peer);
+    let sender = this.senders.get(peerId);
+
+    if (!sender) {
+      try {
+        const entity = await this.fetchSenderEntity(peer);
+        if (isSenderEntity(entity)) {
+          sender = senderFromEntity(entity);
+          this.senders.set(sender);
+        }
+      } catch (error) {
+        console.error('Error resolving sender:', error);
+        return undefined;
+      }
+    }
+
+    if (sender && peerId === chatPeerId) {
+      return {
+        ...sender,
+        kind: 'anonymous_admin',
+        displayName:
+          (msg instanceof Api.Message && msg.postAuthor) || sender.displayName,
+      };
+    }
+
+    return sender;
+  }
+
+  protected async fetchSenderEntity(peer: Api.TypePeer): Promise<unknown> {
+    const entity = await this.getEntity(peer);
+    this.recorder?.recordEntities([entity]);
+    return entity;
+  }
+
+  protected extractPeerId(peer: Api.TypePeer): string {
     if (peer instanceof Api.PeerUser) {
       return peer.userId.toString();
     } else if (peer instanceof Api.PeerChat) {
@@ -110,151 +299,483 @@ export class TelegramService {
     return '';
   }
 
-  // Get messages from a specific forum topic
+  // Get a page of messages from a specific forum topic (newest first)
   async getForumTopicMessages(
     chatId: string | number,
     topicId: number,
-    limit: number = 100
-  ): Promise<ParsedMessage[]> {
-    const client = await this.connect();
+    options: MessagePageOptions = {}
+  ): Promise<MessagePage> {
+    const limit = Math.min(options.limit || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    const forward = options.after !== undefined && options.before === undefined;
 
     try {
-      const chat = await client.getEntity(chatId);
-
-      // For forum topics, use getReplies with the topic ID
-      const result = await client.invoke(
-        new Api.messages.GetReplies({
-          peer: chat,
-          msgId: topicId, // Topic ID is used as msgId for forum topics
-          offsetId: 0,
-          offsetDate: 0,
-          addOffset: 0,
-          limit: limit,
-          maxId: 0,
-          minId: 0,
-          hash: bigInt(0),
-        })
+      const rawMessages = await this.fetchTopicMessages(
+        chatId,
+        topicId,
+        options,
+        limit
       );
 
       const messages: ParsedMessage[] = [];
-
-      if ('messages' in result) {
-        for (const msg of result.messages) {
-          const parsed = this.parseMessage(msg);
-          if (parsed) {
-            messages.push(parsed);
-          }
+      for (const msg of rawMessages) {
+        const parsed = await this.parseMessageWithSender(msg);
+        if (parsed) {
+          messages.push({ ...parsed, topicId });
         }
       }
 
-      return messages;
+      // A full page means there may be more in the same direction
+      let nextCursor: number | undefined;
+      if (rawMessages.length >= limit) {
+        const ids = rawMessages.map((msg) => msg.id);
+        nextCursor = forward ? Math.max(...ids) : Math.min(...ids);
+      }
+
+      this.store.save(chatId, messages);
+      // Hand back the stored copies, which carry edit history
+      const page = {
+        messages: messages.map(
+          (message) => this.store.getMessage(chatId, message.id) || message
+        ),
+        nextCursor,
+      };
+      this.store.recordPage(chatId, topicId, options, page);
+
+      return page;
     } catch (error) {
       console.error('Error fetching forum topic messages:', error);
       throw error;
     }
   }
 
-  // Stream messages from a specific forum topic in real-time
+  // One page of raw topic messages, newest first. The users and chats that
+  // come with them go into the sender cache.
+  protected async fetchTopicMessages(
+    chatId: string | number,
+    topicId: number,
+    options: MessagePageOptions,
+    limit: number
+  ): Promise<Api.TypeMessage[]> {
+    // With only an `after` cursor we walk forward: anchor the offset just
+    // above the cursor and shift the window up by a full page
+    const forward = options.after !== undefined && options.before === undefined;
+    const offsetId = forward ? options.after! + 1 : options.before || 0;
+    const addOffset = forward ? -limit : 0;
+    const minId = options.after || 0;
+    const chat = await this.getEntity(chatId);
+
+    // For forum topics, use getReplies with the topic ID
+    const result = await this.invoke(
+      new Api.messages.GetReplies({
+        peer: chat,
+        msgId: topicId, // Topic ID is used as msgId for forum topics
+        offsetId: offsetId,
+        offsetDate: 0,
+        addOffset: addOffset,
+        limit: limit,
+        maxId: 0,
+        minId: minId,
+        hash: bigInt(0),
+      }),
+      `replies:${normalizeChatId(chatId)}:${topicId}:${offsetId}:${addOffset}:${limit}:${minId}`
+    );
+
+    if (!('messages' in result)) {
+      return [];
+    }
+
+    this.senders.prime([...result.users, ...result.chats]);
+    this.recorder?.recordEntities([...result.users, ...result.chats]);
+    this.recorder?.recordMessages(chatId, result.messages);
+
+    return result.messages;
+  }
+
+  // Walk a forum topic back to its first message, one page at a time.
+  // `before` resumes an interrupted walk, `after` stops it at a known id.
+  async *iterateForumTopicMessages(
+    chatId: string | number,
+    topicId: number,
+    options: MessagePageOptions = {}
+  ): AsyncGenerator<ParsedMessage[]> {
+    let before = options.before || 0;
+
+    while (true) {
+      const page = await this.getForumTopicMessages(chatId, topicId, {
+        limit: options.limit,
+        before: before,
+        after: options.after,
+      });
+
+      if (page.messages.length > 0) {
+        yield page.messages;
+      }
+
+      if (page.nextCursor === undefined) {
+        return;
+      }
+      before = page.nextCursor;
+    }
+  }
+
+  // Serve a topic page from the local store, using Telegram to fill in
+  // anything newer than the last sync or outside the mirrored range
+  async getTopicHistory(
+    chatId: string | number,
+    topicId: number,
+    options: MessagePageOptions = {}
+  ): Promise<MessagePage> {
+    const limit = Math.min(options.limit || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    if (options.before === undefined && options.after === undefined) {
+      await this.syncTopicHead(chatId, topicId);
+    }
+
+    const cached = this.store.getTopicPage(chatId, topicId, options, limit);
+    if (cached) {
+      return cached;
+    }
+
+    return this.getForumTopicMessages(chatId, topicId, { ...options, limit });
+  }
+
+  // Fetch everything newer than the stored head of a topic
+  async syncTopicHead(chatId: string | number, topicId: number) {
+    let after = this.store.getSyncWindow(chatId, topicId)?.high;
+
+    while (after !== undefined) {
+      const page = await this.getForumTopicMessages(chatId, topicId, {
+        after,
+      });
+      after = page.nextCursor;
+    }
+  }
+
+  // Mirror a topic's whole history (down to `after` if given) into the
+  // store, resuming below the mirrored range, and return it newest first
+  async backfillForumTopic(
+    chatId: string | number,
+    topicId: number,
+    after?: number
+  ): Promise<ParsedMessage[]> {
+    await this.syncTopicHead(chatId, topicId);
+
+    const window = this.store.getSyncWindow(chatId, topicId);
+    const synced =
+      window &&
+      (window.reachedStart || (after !== undefined && window.low <= after + 1));
+
+    if (!synced) {
+      // Drain the walk; every page is written to the store as it arrives
+      for await (const page of this.iterateForumTopicMessages(chatId, topicId, {
+        before: window?.low,
+        after,
+      })) {
+        console.log(`Backfilled ${page.length} messages from topic ${topicId}`);
+      }
+    }
+
+    return this.store.listTopicMessages(chatId, topicId, { after });
+  }
+
+  // Messages newer than `after`, oldest first, for catching up a stream
+  // client after a disconnect. Stops once `limit` messages are collected.
+  async getTopicMessagesSince(
+    chatId: string | number,
+    topicId: number,
+    after: number,
+    limit: number
+  ): Promise<ParsedMessage[]> {
+    const messages: ParsedMessage[] = [];
+    let cursor: number | undefined = after;
+
+    while (cursor !== undefined && messages.length < limit) {
+      const page = await this.getTopicHistory(chatId, topicId, {
+        after: cursor,
+      });
+      messages.push(...page.messages.slice().reverse());
+      cursor = page.nextCursor;
+    }
+
+    return messages.slice(0, limit);
+  }
+
+  // Stream new, edited and deleted messages from a forum topic in
+  // real-time, along with changes to the topic (or with `allTopics`, to
+  // any topic of the chat). Returns a function that ends the subscription.
   async streamForumTopicMessages(
     chatId: string | number,
     topicId: number,
-    onMessage: (message: ParsedMessage) => void
-  ) {
-    const client = await this.connect();
+    onEvent: (event: TopicStreamEvent) => void,
+    allTopics = false
+  ): Promise<() => void> {
+    await this.openStream();
+
+    const subscriptionId = this.nextSubscriptionId++;
+    this.subscriptions.set(subscriptionId, {
+      chatId: chatId.toString(),
+      topicId,
+      allTopics,
+      onEvent,
+    });
 
     console.log(
-      `Setting up stream for forum topic ${topicId} in chat ${chatId}`
+      `Subscribed to forum topic ${topicId} in chat ${chatId} (${this.subscriptions.size} active)`
+    );
+
+    return () => {
+      if (!this.subscriptions.delete(subscriptionId)) {
+        return;
+      }
+
+      console.log(
+        `Unsubscribed from forum topic ${topicId} in chat ${chatId} (${this.subscriptions.size} active)`
+      );
+
+      if (this.subscriptions.size === 0) {
+        this.closeStream();
+      }
+    };
+  }
+
+  // Start the shared source of stream events for the first subscriber,
+  // and stop it after the last one leaves
+  protected async openStream() {
+    const client = await this.connect();
+    this.attachStreamHandlers(client);
+  }
+
+  protected closeStream() {
+    this.detachStreamHandlers();
+  }
+
+  private attachStreamHandlers(client: TelegramClient) {
+    if (this.handlerClient === client) {
+      return;
+    }
+
+    this.detachStreamHandlers();
+    client.addEventHandler(this.handleNewMessage, this.newMessageFilter);
+    client.addEventHandler(this.handleEditedMessage, this.editedMessageFilter);
+    client.addEventHandler(
+      this.handleDeletedMessage,
+      this.deletedMessageFilter
     );
+    client.addEventHandler(
+      this.handleServiceMessage,
+      this.serviceMessageFilter
+    );
+    this.handlerClient = client;
+  }
+
+  private detachStreamHandlers() {
+    if (this.handlerClient) {
+      const client = this.handlerClient;
+      client.removeEventHandler(this.handleNewMessage, this.newMessageFilter);
+      client.removeEventHandler(
+        this.handleEditedMessage,
+        this.editedMessageFilter
+      );
+      client.removeEventHandler(
+        this.handleDeletedMessage,
+        this.deletedMessageFilter
+      );
+      client.removeEventHandler(
+        this.handleServiceMessage,
+        this.serviceMessageFilter
+      );
+      this.handlerClient = null;
+    }
+  }
 
-    // Set up message handler for new messages
-    client.addEventHandler(async (event: NewMessageEvent) => {
-      const message = event.message;
+  private dispatch(subscription: TopicSubscription, event: TopicStreamEvent) {
+    try {
+      subscription.onEvent(event);
+    } catch (error) {
+      console.error('Error delivering event to subscriber:', error);
+    }
+  }
+
+  // Route new and edited messages to the subscriptions whose chat and
+  // topic match, storing them first so edits land in the edit history.
+  // Topic changes also go out to every subscription of the chat.
+  protected async handleMessageEvent(
+    message: unknown,
+    type: 'message' | 'edited'
+  ) {
+    if (!(
+      message instanceof Api.Message || message instanceof Api.MessageService
+    )) {
+      return;
+    }
+
+    if (message.peerId) {
+      this.recorder?.recordEvent(this.extractPeerId(message.peerId), {
+        type,
+        message,
+      });
+    }
+
+    const msgChatId = message.peerId ? this.extractPeerId(message.peerId) : '';
+
+    // Parsing may look the sender up, which isn't worth it for chats
+    // nobody follows
+    const followed = [...this.subscriptions.values()].some(
+      (subscription) => normalizeChatId(subscription.chatId) === msgChatId
+    );
+    if (!followed) {
+      return;
+    }
 
-      if (!message || !(message instanceof Api.Message)) {
+    if (type === 'message') {
+      const key = `${msgChatId}:${message.id}`;
+      if (this.recentMessageIds.includes(key)) {
         return;
       }
+      this.recentMessageIds = [
+        ...this.recentMessageIds.slice(1 - RECENT_MESSAGE_IDS),
+        key,
+      ];
+    }
 
-      // Check if message is from our target chat
-      const msgChatId = message.peerId
-        ? this.extractPeerId(message.peerId)
-        : '';
+    const parsed = await this.parseMessageWithSender(message);
+    if (!parsed) {
+      return;
+    }
 
+    for (const subscription of this.subscriptions.values()) {
       if (
-        msgChatId === chatId.toString() ||
-        msgChatId === chatId.toString().replace('-100', '')
+        normalizeChatId(subscription.chatId) !== msgChatId ||
+        !this.isInTopic(message, subscription.topicId)
       ) {
-        // For forum topics, check if the message belongs to our topic
-        // Topic ID 1 (General) usually gets all root messages and replies to topic 1
-        if (topicId === Number(process.env.TOPIC_ID)) {
-          // General topic - check if it's a root message or reply to topic 1
-          if (
-            !message.replyTo ||
-            (message.replyTo &&
-              'replyToTopId' in message.replyTo &&
-              message.replyTo.replyToTopId === 1) ||
-            (message.replyTo &&
-              'forumTopic' in message.replyTo &&
-              message.replyTo.forumTopic)
-          ) {
-            const parsed = this.parseMessage(message);
-            if (parsed) {
-              console.log(
-                `New message in General topic: ${parsed.text.substring(
-                  0,
-                  50
-                )}...`
-              );
-              onMessage(parsed);
-            }
-          }
-        } else {
-          // Other topics - check for specific topic ID
-          if (
-            message.replyTo &&
-            'replyToTopId' in message.replyTo &&
-            message.replyTo.replyToTopId === topicId
-          ) {
-            const parsed = this.parseMessage(message);
-            if (parsed) {
-              console.log(
-                `New message in topic ${topicId}: ${parsed.text.substring(
-                  0,
-                  50
-                )}...`
-              );
-              onMessage(parsed);
-            }
-          }
-        }
+        continue;
       }
-    }, new NewMessage({}));
 
-    console.log('Forum topic streaming started');
+      this.store.save(subscription.chatId, [
+        { ...parsed, topicId: subscription.topicId },
+      ]);
+      const stored = this.store.getMessage(subscription.chatId, parsed.id)!;
+      console.log(
+        `${type === 'edited' ? 'Edited' : 'New'} message in topic ${
+          subscription.topicId
+        }: ${parsed.text.substring(0, 50)}...`
+      );
+
+      this.dispatch(subscription, { type, message: stored });
+    }
+
+    const change = parsed.action && topicChange(parsed.action);
+    if (change && parsed.action) {
+      const topic = {
+        id: messageTopicId(message),
+        title: 'title' in parsed.action ? parsed.action.title : undefined,
+        closed:
+          parsed.action.type === 'topic_edited'
+            ? parsed.action.closed
+            : undefined,
+      };
+      console.log(`Topic ${topic.id} in chat ${msgChatId} ${change}`);
+
+      for (const subscription of this.subscriptions.values()) {
+        if (
+          normalizeChatId(subscription.chatId) === msgChatId &&
+          (subscription.allTopics || subscription.topicId === topic.id)
+        ) {
+          this.dispatch(subscription, { type: 'topic', change, topic });
+        }
+      }
+    }
   }
 
-  // Get all forum topics with proper type checking
-  async getForumTopics(chatId: string | number): Promise<ForumTopicInfo[]> {
-    const client = await this.connect();
+  private handleNewMessage = (event: NewMessageEvent) => {
+    this.handleMessageEvent(event.message, 'message').catch((error) =>
+      console.error('Error handling new message:', error)
+    );
+  };
 
-    try {
-      const entity = await client.getEntity(chatId);
+  private handleEditedMessage = (event: EditedMessageEvent) => {
+    this.handleMessageEvent(event.message, 'edited').catch((error) =>
+      console.error('Error handling edited message:', error)
+    );
+  };
 
-      const result = await client.invoke(
-        new Api.channels.GetForumTopics({
-          channel: entity,
-          offsetDate: 0,
-          offsetId: 0,
-          offsetTopic: 0,
-          limit: 100,
-        })
+  private handleServiceMessage = (update: Api.TypeUpdate) => {
+    if (
+      update instanceof Api.UpdateNewChannelMessage &&
+      update.message instanceof Api.MessageService
+    ) {
+      this.handleMessageEvent(update.message, 'message').catch((error) =>
+        console.error('Error handling service message:', error)
       );
+    }
+  };
+
+  private handleDeletedMessage = (event: DeletedMessageEvent) => {
+    if (event.peer instanceof Api.PeerChannel) {
+      this.handleDeletedIds(this.extractPeerId(event.peer), event.deletedIds);
+    }
+  };
+
+  // Deletions only carry ids, so the stored copy tells us the topic.
+  // Ids we never stored are passed on and ignored by clients that lack them.
+  protected handleDeletedIds(msgChatId: string, deletedIds: number[]) {
+    this.recorder?.recordEvent(msgChatId, { type: 'deleted', ids: deletedIds });
+
+    for (const subscription of this.subscriptions.values()) {
+      if (normalizeChatId(subscription.chatId) !== msgChatId) {
+        continue;
+      }
+
+      this.store.markDeleted(subscription.chatId, deletedIds);
+      const ids = deletedIds.filter((id) => {
+        const stored = this.store.getMessage(subscription.chatId, id);
+        return !stored || stored.topicId === subscription.topicId;
+      });
+
+      if (ids.length > 0) {
+        console.log(
+          `Deleted ${ids.length} message(s) in topic ${subscription.topicId}`
+        );
+        this.dispatch(subscription, { type: 'deleted', ids });
+      }
+    }
+  }
+
+  // Whether a new message belongs to the given forum topic
+  private isInTopic(
+    message: Api.Message | Api.MessageService,
+    topicId: number
+  ) {
+    return messageTopicId(message) === topicId;
+  }
 
+  // Get all forum topics, following pagination past Telegram's page size
+  async getForumTopics(chatId: string | number): Promise<ForumTopicInfo[]> {
+    try {
+      const entity = await this.getEntity(chatId);
       const topics: ForumTopicInfo[] = [];
+      let offsetDate = 0;
+      let offsetId = 0;
+      let offsetTopic = 0;
+
+      while (true) {
+        const result = await this.invoke(
+          new Api.channels.GetForumTopics({
+            channel: entity,
+            offsetDate: offsetDate,
+            offsetId: offsetId,
+            offsetTopic: offsetTopic,
+            limit: MAX_PAGE_SIZE,
+          }),
+          `topics:${normalizeChatId(chatId)}:${offsetDate}:${offsetId}:${offsetTopic}`
+        );
+
+        let last: Api.ForumTopic | undefined;
 
-      if (result.topics) {
         for (const topic of result.topics) {
           // Type guard to check if it's a ForumTopic (not ForumTopicDeleted)
           if (topic instanceof Api.ForumTopic) {
+            last = topic;
             topics.push({
               id: topic.id,
               title: topic.title,
@@ -263,11 +784,33 @@ export class TelegramService {
               date: topic.date,
               closed: topic.closed || false,
               pinned: topic.pinned || false,
+              iconColor: topic.iconColor,
+              iconEmojiId: topic.iconEmojiId?.toString(),
             });
           }
         }
+
+        if (
+          !last ||
+          result.topics.length < MAX_PAGE_SIZE ||
+          topics.length >= result.count
+        ) {
+          break;
+        }
+
+        // The next page starts after the last message of the last topic
+        const lastMessage = result.messages.find(
+          (msg) => msg.id === last.topMessage
+        );
+        offsetDate =
+          lastMessage && 'date' in lastMessage ? lastMessage.date : last.date;
+        offsetId = last.topMessage;
+        offsetTopic = last.id;
       }
 
+      await this.resolveTopicEmoji(topics);
+      this.recorder?.recordTopics(chatId, topics);
+
       return topics;
     } catch (error) {
       console.error('Error fetching forum topics:', error);
@@ -275,18 +818,390 @@ export class TelegramService {
     }
   }
 
+  // Topic icons are custom emoji; look up the plain emoji each one stands for
+  private async resolveTopicEmoji(topics: ForumTopicInfo[]) {
+    const ids = topics
+      .map((topic) => topic.iconEmojiId)
+      .filter((id): id is string => Boolean(id));
+
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      const documents = await this.invoke(
+        new Api.messages.GetCustomEmojiDocuments({
+          documentId: ids.map((id) => bigInt(id)),
+        }),
+        `emoji:${ids.join(',')}`
+      );
+
+      const emoji = new Map<string, string>();
+      for (const document of documents) {
+        if (!(document instanceof Api.Document)) continue;
+        for (const attribute of document.attributes) {
+          if (attribute instanceof Api.DocumentAttributeCustomEmoji) {
+            emoji.set(document.id.toString(), attribute.alt);
+          }
+        }
+      }
+
+      for (const topic of topics) {
+        if (topic.iconEmojiId) {
+          topic.iconEmoji = emoji.get(topic.iconEmojiId);
+        }
+      }
+    } catch (error) {
+      // Icons are cosmetic, topics are still usable without them
+      console.error('Error resolving topic emoji:', error);
+    }
+  }
+
+  // Server-side search, for history that isn't archived locally yet.
+  // Hits are written to the store like any other fetched message.
+  async searchMessages(
+    chatId: string | number,
+    query: string,
+    options: { topicId?: number; from?: number; to?: number; limit?: number }
+  ): Promise<ParsedMessage[]> {
+    try {
+      const chat = await this.getEntity(chatId);
+
+      const result = await this.invoke(
+        new Api.messages.Search({
+          peer: chat,
+          q: query,
+          topMsgId: options.topicId,
+          filter: new Api.InputMessagesFilterEmpty(),
+          minDate: options.from || 0,
+          maxDate: options.to || 0,
+          offsetId: 0,
+          addOffset: 0,
+          limit: Math.min(options.limit || MAX_PAGE_SIZE, MAX_PAGE_SIZE),
+          maxId: 0,
+          minId: 0,
+          hash: bigInt(0),
+        }),
+        `search:${normalizeChatId(chatId)}:${JSON.stringify([query, options])}`
+      );
+
+      const messages: ParsedMessage[] = [];
+
+      if ('messages' in result) {
+        this.senders.prime([...result.users, ...result.chats]);
+        this.recorder?.recordEntities([...result.users, ...result.chats]);
+        this.recorder?.recordMessages(chatId, result.messages);
+
+        for (const msg of result.messages) {
+          const parsed = await this.parseMessageWithSender(msg);
+          if (parsed) {
+            messages.push(
+              options.topicId ? { ...parsed, topicId: options.topicId } : parsed
+            );
+          }
+        }
+      }
+
+      this.store.save(chatId, messages);
+
+      return messages.map(
+        (message) => this.store.getMessage(chatId, message.id) || message
+      );
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      throw error;
+    }
+  }
+
+  // Look up messages by id, wherever they are in the chat. Ids that don't
+  // exist (any more) are left out.
+  async getMessages(
+    chatId: string | number,
+    ids: number[]
+  ): Promise<ParsedMessage[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    try {
+      const messages: ParsedMessage[] = [];
+      for (const msg of await this.fetchMessagesByIds(chatId, ids)) {
+        const parsed = await this.parseMessageWithSender(msg);
+        if (parsed) {
+          messages.push(parsed);
+        }
+      }
+
+      this.store.save(chatId, messages);
+
+      return messages.map(
+        (message) => this.store.getMessage(chatId, message.id) || message
+      );
+    } catch (error) {
+      console.error('Error fetching messages by id:', error);
+      throw error;
+    }
+  }
+
+  // Whether a sender posted anything older than message `beforeId`, in a
+  // topic or anywhere in the chat. For history the archive doesn't reach.
+  async hasEarlierMessages(
+    chatId: string | number,
+    sender: Pick<MessageSender, 'id' | 'kind'>,
+    beforeId: number,
+    topicId?: number
+  ): Promise<boolean> {
+    const messages = await this.fetchSenderMessages(
+      chatId,
+      sender,
+      beforeId,
+      topicId,
+      1
+    );
+    return messages.length > 0;
+  }
+
+  // Post a text message into a forum topic, or as a reply to one of its
+  // messages. Resolves to the stored copy of the sent message; Telegram's
+  // refusals come back as SendMessageErrors.
+  async sendMessage(
+    chatId: string | number,
+    topicId: number,
+    text: string,
+    replyToMsgId?: number
+  ): Promise<ParsedMessage> {
+    const chat = await this.getEntity(chatId);
+    const randomId = generateRandomLong();
+
+    // Posts in General carry no reply header; other topics hang off the
+    // message that opened them
+    const replyTo =
+      replyToMsgId !== undefined || topicId !== GENERAL_TOPIC_ID
+        ? new Api.InputReplyToMessage({
+            replyToMsgId: replyToMsgId ?? topicId,
+            topMsgId:
+              replyToMsgId !== undefined && topicId !== GENERAL_TOPIC_ID
+                ? topicId
+                : undefined,
+          })
+        : undefined;
+
+    let result: Api.TypeUpdates;
+    try {
+      result = await this.invoke(
+        new Api.messages.SendMessage({
+          peer: chat,
+          message: text,
+          randomId: randomId,
+          replyTo: replyTo,
+        })
+      );
+    } catch (error) {
+      throw sendFailure(error);
+    }
+
+    const sent = this.findSentMessage(result, randomId);
+    if (!sent) {
+      throw new Error('Telegram did not return the sent message');
+    }
+    this.recorder?.recordMessages(chatId, [sent]);
+
+    const parsed = await this.parseMessageWithSender(sent);
+    if (!parsed) {
+      throw new Error('Telegram did not return the sent message');
+    }
+    this.store.save(chatId, [parsed]);
+
+    // Live streams of the topic get it right away
+    await this.handleMessageEvent(sent, 'message');
+
+    return this.store.getMessage(chatId, parsed.id) || parsed;
+  }
+
+  // The message a send created, from the updates Telegram answers with
+  private findSentMessage(
+    result: Api.TypeUpdates,
+    randomId: bigInt.BigInteger
+  ): Api.Message | undefined {
+    if (!(
+      result instanceof Api.Updates || result instanceof Api.UpdatesCombined
+    )) {
+      return undefined;
+    }
+
+    this.senders.prime([...result.users, ...result.chats]);
+    this.recorder?.recordEntities([...result.users, ...result.chats]);
+
+    const id = result.updates.find(
+      (update): update is Api.UpdateMessageID =>
+        update instanceof Api.UpdateMessageID &&
+        Boolean(update.randomId?.equals(randomId))
+    )?.id;
+
+    for (const update of result.updates) {
+      if (
+        (update instanceof Api.UpdateNewChannelMessage ||
+          update instanceof Api.UpdateNewMessage) &&
+        update.message instanceof Api.Message &&
+        (id === undefined || update.message.id === id)
+      ) {
+        return update.message;
+      }
+    }
+    return undefined;
+  }
+
+  protected async fetchMessagesByIds(
+    chatId: string | number,
+    ids: number[]
+  ): Promise<Api.TypeMessage[]> {
+    const chat = await this.getEntity(chatId);
+
+    const result = await this.invoke(
+      new Api.channels.GetMessages({
+        channel: chat,
+        id: ids.map((id) => new Api.InputMessageID({ id })),
+      }),
+      `messages:${normalizeChatId(chatId)}:${ids.join(',')}`
+    );
+
+    if (!('messages' in result)) {
+      return [];
+    }
+
+    this.senders.prime([...result.users, ...result.chats]);
+    this.recorder?.recordEntities([...result.users, ...result.chats]);
+    this.recorder?.recordMessages(chatId, result.messages);
+
+    // Missing ids come back as empty messages
+    return result.messages.filter((msg) => !(msg instanceof Api.MessageEmpty));
+  }
+
+  // A sender's messages older than `beforeId`, newest first
+  protected async fetchSenderMessages(
+    chatId: string | number,
+    sender: Pick<MessageSender, 'id' | 'kind'>,
+    beforeId: number,
+    topicId: number | undefined,
+    limit: number
+  ): Promise<Api.TypeMessage[]> {
+    const chat = await this.getEntity(chatId);
+    // Channels, groups and anonymous admins all post as a channel peer
+    const from = await this.getEntity(
+      sender.kind === 'user' || sender.kind === 'bot'
+        ? new Api.PeerUser({ userId: bigInt(sender.id) })
+        : new Api.PeerChannel({ channelId: bigInt(sender.id) })
+    );
+
+    const result = await this.invoke(
+      new Api.messages.Search({
+        peer: chat,
+        q: '',
+        fromId: from,
+        topMsgId: topicId,
+        filter: new Api.InputMessagesFilterEmpty(),
+        minDate: 0,
+        maxDate: 0,
+        offsetId: beforeId,
+        addOffset: 0,
+        limit: limit,
+        maxId: 0,
+        minId: 0,
+        hash: bigInt(0),
+      }),
+      `from:${normalizeChatId(chatId)}:${sender.id}:${topicId}:${beforeId}:${limit}`
+    );
+
+    if (!('messages' in result)) {
+      return [];
+    }
+
+    this.senders.prime([...result.users, ...result.chats]);
+    this.recorder?.recordEntities([...result.users, ...result.chats]);
+    this.recorder?.recordMessages(chatId, result.messages);
+
+    return result.messages;
+  }
+
+  // Download a message's attachment (or its preview thumbnail) to a file.
+  // Resolves to null when there is nothing to download.
+  async downloadMessageMedia(
+    chatId: string | number,
+    messageId: number,
+    outputFile: string,
+    thumbnail: boolean = false
+  ): Promise<MessageMedia | null> {
+    try {
+      const [message] = await this.fetchMessagesByIds(chatId, [messageId]);
+
+      if (!(message instanceof Api.Message) || !message.media) {
+        return null;
+      }
+
+      const media = parseMedia(message.media);
+      if (!media || media.kind === 'other') {
+        return null;
+      }
+
+      let thumb: Api.PhotoSize | undefined;
+      if (thumbnail) {
+        if (message.media instanceof Api.MessageMediaPhoto) {
+          const photo = message.media.photo;
+          thumb = pickThumbnail(
+            photo instanceof Api.Photo ? photo.sizes : undefined
+          );
+        } else if (message.media instanceof Api.MessageMediaDocument) {
+          const document = message.media.document;
+          thumb = pickThumbnail(
+            document instanceof Api.Document ? document.thumbs : undefined
+          );
+        }
+
+        if (!thumb) {
+          return null;
+        }
+      }
+
+      await this.scheduler.run('download', null, async () => {
+        const client = await this.connect();
+        return client.downloadMedia(message, { outputFile, thumb });
+      });
+      return media;
+    } catch (error) {
+      console.error('Error downloading media:', error);
+      throw error;
+    }
+  }
+
+  // Download a user's or chat's small profile photo to a file.
+  // Resolves to false when the peer has no photo.
+  async downloadAvatar(peerId: string, outputFile: string): Promise<boolean> {
+    try {
+      const entity = await this.getEntity(peerId);
+      const result = await this.scheduler.run('download', null, async () => {
+        const client = await this.connect();
+        return client.downloadProfilePhoto(entity, {
+          outputFile,
+          isBig: false,
+        });
+      });
+      return result !== undefined;
+    } catch (error) {
+      console.error('Error downloading avatar:', error);
+      throw error;
+    }
+  }
+
   // Alternative: Get historical messages from the entire supergroup
   async getSupergroupMessages(
     chatId: string | number,
     limit: number = 100,
     offsetId: number = 0
   ): Promise<ParsedMessage[]> {
-    const client = await this.connect();
-
     try {
-      const chat = await client.getEntity(chatId);
+      const chat = await this.getEntity(chatId);
 
-      const result = await client.invoke(
+      const result = await this.invoke(
         new Api.messages.GetHistory({
           peer: chat,
           offsetId: offsetId,
@@ -296,20 +1211,25 @@ export class TelegramService {
           maxId: 0,
           minId: 0,
           hash: bigInt(0),
-        })
+        }),
+        `history:${normalizeChatId(chatId)}:${offsetId}:${limit}`
       );
 
       const messages: ParsedMessage[] = [];
 
       if ('messages' in result) {
+        this.senders.prime([...result.users, ...result.chats]);
+
         for (const msg of result.messages) {
-          const parsed = this.parseMessage(msg);
+          const parsed = await this.parseMessageWithSender(msg);
           if (parsed) {
             messages.push(parsed);
           }
         }
       }
 
+      this.store.save(chatId, messages);
+
       return messages;
     } catch (error) {
       console.error('Error fetching messages:', error);
@@ -0,0 +1,72 @@
+import { errors } from 'telegram';
+import { RateLimitedError } from './scheduler';
+
+// Telegram's limit for one text message
+export const MAX_MESSAGE_LENGTH = 4096;
+
+export type SendFailure =
+  | 'topic_closed'
+  | 'topic_deleted'
+  | 'forbidden'
+  | 'reply_missing'
+  | 'invalid_text';
+
+// Telegram refused the message for a reason worth telling the sender
+export class SendMessageError extends Error {
+  constructor(
+    public reason: SendFailure,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SendMessageError';
+  }
+}
+
+const FAILURES: Record<string, [SendFailure, string]> = {
+  TOPIC_CLOSED: [
+    'topic_closed',
+    'The topic is closed; only admins can post in it',
+  ],
+  TOPIC_DELETED: ['topic_deleted', 'The topic no longer exists'],
+  CHAT_WRITE_FORBIDDEN: ['forbidden', 'This account may not post in the chat'],
+  CHAT_SEND_PLAIN_FORBIDDEN: [
+    'forbidden',
+    'Text messages are not allowed in the chat',
+  ],
+  CHAT_RESTRICTED: ['forbidden', 'Posting in the chat is restricted'],
+  CHAT_ADMIN_REQUIRED: ['forbidden', 'Only admins may post in the chat'],
+  USER_BANNED_IN_CHANNEL: [
+    'forbidden',
+    'This account is banned from posting in the chat',
+  ],
+  CHANNEL_PRIVATE: ['forbidden', 'This account is not a member of the chat'],
+  REPLY_MESSAGE_ID_INVALID: [
+    'reply_missing',
+    'The message being replied to no longer exists',
+  ],
+  MSG_ID_INVALID: [
+    'reply_missing',
+    'The message being replied to no longer exists',
+  ],
+  MESSAGE_EMPTY: ['invalid_text', 'The message is empty'],
+  MESSAGE_TOO_LONG: [
+    'invalid_text',
+    `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`,
+  ],
+};
+
+// Turn Telegram's refusal to send into an error a route can explain;
+// anything unrecognised comes back as it was
+export function sendFailure(error: unknown): unknown {
+  // Slow mode is a per-chat wait between posts, much like a flood wait
+  if (error instanceof errors.SlowModeWaitError) {
+    return new RateLimitedError('messages.SendMessage', error.seconds);
+  }
+
+  if (error instanceof errors.RPCError && FAILURES[error.errorMessage]) {
+    const [reason, message] = FAILURES[error.errorMessage];
+    return new SendMessageError(reason, message);
+  }
+
+  return error;
+}
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import { TelegramService } from './client';
+import {
+  DigestRange,
+  digestRange,
+  generateDigest,
+  lastCompleteRange,
+  localDate,
+  renderDigest,
+} from './digest';
+import { EXPORT_FORMATS } from './export';
+import { RateLimitedError } from './scheduler';
+import { getTelegramService } from './service';
+import { DATA_DIR, normalizeChatId } from './store';
+import { DigestSchedule, getConfig } from '../config';
+
+const DIGESTS_DIR = path.join(DATA_DIR, 'digests');
+
+// Give the background sync a moment to bring in the period's last messages
+const SETTLE_DELAY_MS = 60 * 1000;
+// A digest that failed is tried again this much later
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+
+// Writes each configured digest once its day or week is over, as
+// <data dir>/digests/<chat>/<topic>/<period>-<first day>.md and .html.
+// A digest already on disk is never redone, so a restart only fills in
+// the latest period if it was missed.
+export class DigestWriter {
+  private running: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    // The service of the account reading a chat
+    private serviceFor: (chatId: string) => TelegramService,
+    private schedules: DigestSchedule[] = getConfig().digests,
+    private dir: string = DIGESTS_DIR
+  ) {}
+
+  start() {
+    if (this.schedules.length > 0) {
+      this.schedule(0);
+    }
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.runNow().catch((error) => {
+        console.error('Error writing digests:', error);
+      });
+    }, delayMs);
+  }
+
+  // Start a run unless one is going already; resolves when it finishes
+  runNow(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  // Where a period's digest goes, without the extension
+  filePath(schedule: DigestSchedule, range: DigestRange) {
+    return path.join(
+      this.dir,
+      normalizeChatId(schedule.chatId),
+      String(schedule.topicId),
+      `${schedule.period}-${localDate(range.from, schedule.utcOffset)}`
+    );
+  }
+
+  private async run() {
+    let retryAfter = 0;
+    let failed = false;
+
+    try {
+      for (const schedule of this.schedules) {
+        const range = lastCompleteRange(schedule.period, schedule.utcOffset);
+        const file = this.filePath(schedule, range);
+        if (fs.existsSync(`${file}.${EXPORT_FORMATS.markdown.extension}`)) {
+          continue;
+        }
+
+        try {
+          const digest = await generateDigest(
+            this.serviceFor(schedule.chatId),
+            { ...schedule, ...range }
+          );
+          this.write(file, 'html', renderDigest(digest, 'html'));
+          // Written last, since its presence marks the digest as done
+          this.write(file, 'markdown', renderDigest(digest, 'markdown'));
+          console.log(`Wrote ${schedule.period} digest ${file}`);
+        } catch (error) {
+          failed = true;
+          if (error instanceof RateLimitedError) {
+            retryAfter = Math.max(retryAfter, error.retryAfter);
+          }
+          console.error(`Error writing digest ${file}:`, error);
+        }
+      }
+    } finally {
+      // Next up is whichever period ends first
+      const now = Math.floor(Date.now() / 1000);
+      let delayMs = Math.min(
+        ...this.schedules.map((schedule) => {
+          const current = digestRange(schedule.period, schedule.utcOffset, now);
+          return (current.to + 1 - now) * 1000 + SETTLE_DELAY_MS;
+        })
+      );
+      if (failed) {
+        delayMs = Math.min(
+          delayMs,
+          Math.max(RETRY_DELAY_MS, retryAfter * 1000)
+        );
+      }
+      this.schedule(delayMs);
+    }
+  }
+
+  // Write via a temp file so a crash never leaves half a file behind
+  private write(file: string, format: 'markdown' | 'html', content: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const target = `${file}.${EXPORT_FORMATS[format].extension}`;
+    fs.writeFileSync(`${target}.tmp`, content);
+    fs.renameSync(`${target}.tmp`, target);
+  }
+}
+
+const globalForDigests = globalThis as unknown as {
+  digestWriter?: DigestWriter;
+};
+
+export function getDigestWriter() {
+  if (!globalForDigests.digestWriter) {
+    const writer = new DigestWriter(getTelegramService);
+    globalForDigests.digestWriter = writer;
+    writer.start();
+  }
+  return globalForDigests.digestWriter;
+}
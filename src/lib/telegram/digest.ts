@@ -0,0 +1,537 @@
+import { TelegramService } from './client';
+import { EXPORT_FORMATS } from './export';
+import { entityHref, escapeHtml, renderMarkdown } from './formatting';
+import { bucketStart, DAY_MS, senderKey } from './stats';
+import { getMessageStore } from './store';
+import { replyParentId } from './threads';
+import type { ForumTopicInfo, MessageSender, ParsedMessage } from './types';
+import type { DigestPeriod, DigestSchedule } from '../config';
+
+export type DigestFormat = 'json' | 'markdown' | 'html';
+
+export const DIGEST_FORMATS: DigestFormat[] = ['json', 'markdown', 'html'];
+
+// How many of the most replied messages to highlight
+const TOP_REPLIED = 5;
+// How far up a reply chain we look for the start of its thread
+const MAX_THREAD_DEPTH = 50;
+// Excerpts in the highlights are cut to this many characters
+const SNIPPET_LENGTH = 100;
+// Posters with nothing archived before the period are looked up in
+// Telegram one search at a time, so only this many per digest
+const MAX_SENDER_LOOKUPS = 20;
+
+const PERIOD_DAYS: Record<DigestPeriod, number> = { daily: 1, weekly: 7 };
+
+const PERIOD_TITLES: Record<DigestPeriod, string> = {
+  daily: 'Daily digest',
+  weekly: 'Weekly digest',
+};
+
+// Unix timestamps (seconds), inclusive
+export interface DigestRange {
+  from: number;
+  to: number;
+}
+
+export type DigestOptions = DigestSchedule & DigestRange;
+
+export interface DigestThread {
+  // Where the thread starts; may be from before the period
+  root: ParsedMessage;
+  // Replies posted in the period at any depth, oldest first
+  replies: ParsedMessage[];
+}
+
+export interface RepliedMessage {
+  message: ParsedMessage;
+  // Direct replies posted in the period
+  replies: number;
+}
+
+export interface SharedLink {
+  url: string;
+  // The first message in the period that shared it
+  messageId: number;
+  date: number;
+  sender?: MessageSender;
+  fromId?: string;
+}
+
+export interface NewParticipant {
+  id: string;
+  sender?: MessageSender;
+  messages: number;
+  firstMessageId: number;
+}
+
+export interface Digest extends DigestOptions {
+  title: string;
+  totalMessages: number;
+  participants: number;
+  // Oldest first
+  threads: DigestThread[];
+  mostReplied: RepliedMessage[];
+  links: SharedLink[];
+  newParticipants: NewParticipant[];
+  // Past the lookup limit, so they may or may not be new
+  uncheckedParticipants: NewParticipant[];
+}
+
+interface ReturningSenders {
+  // Posters of the period who posted in the topic before it
+  returning: Set<string>;
+  // Posters past the lookup limit
+  unchecked: Set<string>;
+}
+
+// The day or week holding `at` (unix seconds), with days starting at
+// midnight `utcOffset` minutes east of UTC
+export function digestRange(
+  period: DigestPeriod,
+  utcOffset: number,
+  at: number
+): DigestRange {
+  const offsetMs = utcOffset * 60 * 1000;
+  const start =
+    bucketStart(at * 1000 + offsetMs, period === 'daily' ? 'day' : 'week') -
+    offsetMs;
+
+  return {
+    from: start / 1000,
+    to: (start + PERIOD_DAYS[period] * DAY_MS) / 1000 - 1,
+  };
+}
+
+// The last day or week that is over by `at`
+export function lastCompleteRange(
+  period: DigestPeriod,
+  utcOffset: number,
+  at: number = Math.floor(Date.now() / 1000)
+): DigestRange {
+  const current = digestRange(period, utcOffset, at);
+  return digestRange(period, utcOffset, current.from - 1);
+}
+
+// Summary of one topic's day or week from its archived messages.
+// `senders` tells which posters had posted before the period; without it
+// only the archive is asked.
+export function computeDigest(
+  messages: ParsedMessage[],
+  topics: ForumTopicInfo[],
+  options: DigestOptions,
+  senders?: ReturningSenders
+): Digest {
+  const { topicId, from, to } = options;
+
+  // Deleted and service messages aren't part of the conversation
+  const scope = messages
+    .filter(
+      (message) =>
+        !message.deleted && !message.action && message.topicId === topicId
+    )
+    .sort((a, b) => a.id - b.id);
+  const byId = new Map(scope.map((message) => [message.id, message]));
+  const inRange = scope.filter(
+    (message) => message.date >= from && message.date <= to
+  );
+
+  // Follow the replies up to the earliest archived message of the thread
+  const rootOf = (message: ParsedMessage) => {
+    let root = message;
+    for (let depth = 0; depth < MAX_THREAD_DEPTH; depth++) {
+      const parentId = replyParentId(root);
+      const parent = parentId !== undefined ? byId.get(parentId) : undefined;
+      if (!parent) break;
+      root = parent;
+    }
+    return root;
+  };
+
+  const threads = new Map<number, DigestThread>();
+  // Message id -> direct replies in the period
+  const replyCounts = new Map<number, number>();
+  const links = new Map<string, SharedLink>();
+  const posters = new Map<string, NewParticipant>();
+
+  for (const message of inRange) {
+    const root = rootOf(message);
+    const thread = threads.get(root.id) || { root, replies: [] };
+    if (root !== message) {
+      thread.replies.push(message);
+    }
+    threads.set(root.id, thread);
+
+    const parentId = replyParentId(message);
+    if (parentId !== undefined && byId.has(parentId)) {
+      replyCounts.set(parentId, (replyCounts.get(parentId) || 0) + 1);
+    }
+
+    for (const entity of message.entities || []) {
+      if (entity.type !== 'url' && entity.type !== 'text_link') continue;
+
+      const url = entityHref(
+        entity,
+        message.text.slice(entity.offset, entity.offset + entity.length)
+      );
+      if (url && !links.has(url)) {
+        links.set(url, {
+          url,
+          messageId: message.id,
+          date: message.date,
+          sender: message.sender,
+          fromId: message.fromId,
+        });
+      }
+    }
+
+    const id = senderKey(message);
+    const poster = posters.get(id) || {
+      id,
+      messages: 0,
+      firstMessageId: message.id,
+    };
+    poster.messages++;
+    poster.sender = message.sender || poster.sender;
+    posters.set(id, poster);
+  }
+
+  // New participants never posted in the topic before the period
+  const earlier =
+    senders?.returning ||
+    new Set(scope.filter((message) => message.date < from).map(senderKey));
+  const unchecked = senders?.unchecked || new Set<string>();
+
+  return {
+    ...options,
+    title:
+      topics.find((topic) => topic.id === topicId)?.title || `Topic ${topicId}`,
+    totalMessages: inRange.length,
+    participants: posters.size,
+    threads: [...threads.values()].sort((a, b) => a.root.id - b.root.id),
+    mostReplied: [...replyCounts]
+      .map(([id, replies]) => ({ message: byId.get(id)!, replies }))
+      .sort((a, b) => b.replies - a.replies || a.message.id - b.message.id)
+      .slice(0, TOP_REPLIED),
+    links: [...links.values()],
+    newParticipants: [...posters.values()].filter(
+      (poster) => !earlier.has(poster.id) && !unchecked.has(poster.id)
+    ),
+    uncheckedParticipants: [...posters.values()].filter((poster) =>
+      unchecked.has(poster.id)
+    ),
+  };
+}
+
+// Makes sure the archive has the topic's newest messages and reaches back
+// past `from`, walking older pages only when it doesn't
+async function archiveSince(
+  service: TelegramService,
+  chatId: string,
+  topicId: number,
+  from: number
+) {
+  const store = getMessageStore();
+  await service.syncTopicHead(chatId, topicId);
+
+  const window = store.getSyncWindow(chatId, topicId);
+  const oldest = window && store.getMessage(chatId, window.low);
+  if (window?.reachedStart || (oldest && oldest.date < from)) {
+    return;
+  }
+
+  for await (const page of service.iterateForumTopicMessages(chatId, topicId, {
+    before: window?.low,
+  })) {
+    // Pages come newest first
+    if (page[page.length - 1].date < from) break;
+  }
+}
+
+// Which posters of the period had posted in the topic before it. The
+// archive answers for most; the rest are looked up in Telegram, unless the
+// archive holds the topic's whole history.
+async function findReturningSenders(
+  service: TelegramService,
+  messages: ParsedMessage[],
+  options: DigestOptions,
+  archiveComplete: boolean
+): Promise<ReturningSenders> {
+  const { chatId, topicId, from, to } = options;
+  const scope = messages
+    .filter(
+      (message) =>
+        !message.deleted && !message.action && message.topicId === topicId
+    )
+    .sort((a, b) => a.id - b.id);
+
+  const returning = new Set(
+    scope.filter((message) => message.date < from).map(senderKey)
+  );
+  const unchecked = new Set<string>();
+  if (archiveComplete) {
+    return { returning, unchecked };
+  }
+
+  // Each remaining poster's first message in the period
+  const firstMessages = new Map<string, ParsedMessage>();
+  for (const message of scope) {
+    const id = senderKey(message);
+    if (
+      message.date >= from &&
+      message.date <= to &&
+      !returning.has(id) &&
+      !firstMessages.has(id)
+    ) {
+      firstMessages.set(id, message);
+    }
+  }
+
+  let lookups = 0;
+  for (const [id, message] of firstMessages) {
+    // Nothing to look up for messages with no known sender
+    if (id === 'unknown') continue;
+    if (lookups++ >= MAX_SENDER_LOOKUPS) {
+      unchecked.add(id);
+      continue;
+    }
+
+    const sender = message.sender || { id, kind: 'user' as const };
+    if (await service.hasEarlierMessages(chatId, sender, message.id, topicId)) {
+      returning.add(id);
+    }
+  }
+
+  return { returning, unchecked };
+}
+
+export async function generateDigest(
+  service: TelegramService,
+  options: DigestOptions
+): Promise<Digest> {
+  const { chatId, topicId, from } = options;
+  const store = getMessageStore();
+  const topics = await service.getForumTopics(chatId);
+  await archiveSince(service, chatId, topicId, from);
+
+  // The archive only reaches a page or so before the period, so it can't
+  // tell new posters by itself
+  const messages = store.listTopicMessages(chatId, topicId);
+  const senders = await findReturningSenders(
+    service,
+    messages,
+    options,
+    Boolean(store.getSyncWindow(chatId, topicId)?.reachedStart)
+  );
+
+  return computeDigest(messages, topics, options, senders);
+}
+
+// YYYY-MM-DD of a unix timestamp, in a digest's UTC offset
+export const localDate = (date: number, utcOffset: number) =>
+  new Date((date + utcOffset * 60) * 1000).toISOString().slice(0, 10);
+
+function describeRange(digest: Digest) {
+  const first = localDate(digest.from, digest.utcOffset);
+  const last = localDate(digest.to, digest.utcOffset);
+  const offset = Math.abs(digest.utcOffset);
+  const zone = `UTC${digest.utcOffset < 0 ? '-' : '+'}${String(
+    Math.floor(offset / 60)
+  ).padStart(2, '0')}:${String(offset % 60).padStart(2, '0')}`;
+
+  return `${first === last ? first : `${first} to ${last}`} (${zone})`;
+}
+
+const count = (n: number, one: string, many: string) =>
+  `${n} ${n === 1 ? one : many}`;
+
+const nameOf = (who: { sender?: MessageSender; fromId?: string }) =>
+  who.sender?.displayName || who.fromId || 'Unknown';
+
+// One line of a message's text, for the highlights
+function snippet(text: string) {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > SNIPPET_LENGTH
+    ? line.slice(0, SNIPPET_LENGTH) + '…'
+    : line;
+}
+
+const summary = (digest: Digest) =>
+  `${describeRange(digest)} · ${count(
+    digest.totalMessages,
+    'message',
+    'messages'
+  )} from ${count(digest.participants, 'participant', 'participants')}`;
+
+const participantMarkdown = (poster: NewParticipant) => {
+  const username = poster.sender?.username
+    ? ` @${renderMarkdown(poster.sender.username)}`
+    : '';
+  return `- **${renderMarkdown(
+    poster.sender?.displayName || poster.id
+  )}**${username}: ${count(
+    poster.messages,
+    'message',
+    'messages'
+  )}, first #${poster.firstMessageId}\n`;
+};
+
+function renderDigestMarkdown(digest: Digest) {
+  const { header, row, footer } = EXPORT_FORMATS.markdown;
+  let out =
+    header(`${PERIOD_TITLES[digest.period]}: ${digest.title}`) +
+    `${summary(digest)}\n\n`;
+
+  if (digest.mostReplied.length > 0) {
+    out += '## Most replied\n\n';
+    for (const { message, replies } of digest.mostReplied) {
+      out += `- **${renderMarkdown(nameOf(message))}** (#${
+        message.id
+      }, ${count(replies, 'reply', 'replies')}): ${renderMarkdown(
+        snippet(message.text)
+      )}\n`;
+    }
+    out += '\n';
+  }
+
+  if (digest.links.length > 0) {
+    out += '## Links shared\n\n';
+    for (const link of digest.links) {
+      out += `- [${renderMarkdown(link.url)}](${link.url.replace(
+        /[()]/g,
+        '\\$&'
+      )}) from **${renderMarkdown(nameOf(link))}** (#${link.messageId})\n`;
+    }
+    out += '\n';
+  }
+
+  if (digest.newParticipants.length > 0) {
+    out += '## New participants\n\n';
+    out += digest.newParticipants.map(participantMarkdown).join('');
+    out += '\n';
+  }
+
+  if (digest.uncheckedParticipants.length > 0) {
+    out += '## Possibly new participants\n\n';
+    out += digest.uncheckedParticipants.map(participantMarkdown).join('');
+    out += '\n';
+  }
+
+  // Conversations first, then whatever got no replies
+  const conversations = digest.threads.filter(
+    (thread) => thread.replies.length > 0
+  );
+  const standalone = digest.threads.filter(
+    (thread) => thread.replies.length === 0
+  );
+
+  if (conversations.length > 0) {
+    out += '## Threads\n\n';
+    for (const { root, replies } of conversations) {
+      out += `### ${renderMarkdown(
+        snippet(root.text) || `#${root.id}`
+      )} (${count(replies.length, 'reply', 'replies')})\n\n`;
+      out += [root, ...replies].map(row).join('');
+    }
+  }
+
+  if (standalone.length > 0) {
+    out += '## Other messages\n\n';
+    out += standalone.map((thread) => row(thread.root)).join('');
+  }
+
+  return out + footer();
+}
+
+const participantHtml = (poster: NewParticipant) => {
+  const username = poster.sender?.username
+    ? ` @${escapeHtml(poster.sender.username)}`
+    : '';
+  return `<li><b>${escapeHtml(
+    poster.sender?.displayName || poster.id
+  )}</b>${username}: ${count(
+    poster.messages,
+    'message',
+    'messages'
+  )}, first <a href="#m${poster.firstMessageId}">#${
+    poster.firstMessageId
+  }</a></li>\n`;
+};
+
+function renderDigestHtml(digest: Digest) {
+  const { header, row, footer } = EXPORT_FORMATS.html;
+  let out =
+    header(`${PERIOD_TITLES[digest.period]}: ${digest.title}`) +
+    `<p>${escapeHtml(summary(digest))}</p>\n`;
+
+  if (digest.mostReplied.length > 0) {
+    out += '<h2>Most replied</h2>\n<ul>\n';
+    for (const { message, replies } of digest.mostReplied) {
+      out += `<li><b>${escapeHtml(nameOf(message))}</b> (<a href="#m${
+        message.id
+      }">#${message.id}</a>, ${count(
+        replies,
+        'reply',
+        'replies'
+      )}): ${escapeHtml(snippet(message.text))}</li>\n`;
+    }
+    out += '</ul>\n';
+  }
+
+  if (digest.links.length > 0) {
+    out += '<h2>Links shared</h2>\n<ul>\n';
+    for (const link of digest.links) {
+      out += `<li><a href="${escapeHtml(link.url)}">${escapeHtml(
+        link.url
+      )}</a> from <b>${escapeHtml(nameOf(link))}</b> (<a href="#m${
+        link.messageId
+      }">#${link.messageId}</a>)</li>\n`;
+    }
+    out += '</ul>\n';
+  }
+
+  if (digest.newParticipants.length > 0) {
+    out += '<h2>New participants</h2>\n<ul>\n';
+    out += digest.newParticipants.map(participantHtml).join('');
+    out += '</ul>\n';
+  }
+
+  if (digest.uncheckedParticipants.length > 0) {
+    out += '<h2>Possibly new participants</h2>\n<ul>\n';
+    out += digest.uncheckedParticipants.map(participantHtml).join('');
+    out += '</ul>\n';
+  }
+
+  const conversations = digest.threads.filter(
+    (thread) => thread.replies.length > 0
+  );
+  const standalone = digest.threads.filter(
+    (thread) => thread.replies.length === 0
+  );
+
+  if (conversations.length > 0) {
+    out += '<h2>Threads</h2>\n';
+    for (const { root, replies } of conversations) {
+      out += `<section>\n<h3>${escapeHtml(
+        snippet(root.text) || `#${root.id}`
+      )} (${count(replies.length, 'reply', 'replies')})</h3>\n`;
+      out += [root, ...replies].map(row).join('') + '</section>\n';
+    }
+  }
+
+  if (standalone.length > 0) {
+    out += '<h2>Other messages</h2>\n';
+    out += standalone.map((thread) => row(thread.root)).join('');
+  }
+
+  return out + footer();
+}
+
+export function renderDigest(
+  digest: Digest,
+  format: Exclude<DigestFormat, 'json'>
+): string {
+  return format === 'markdown'
+    ? renderDigestMarkdown(digest)
+    : renderDigestHtml(digest);
+}
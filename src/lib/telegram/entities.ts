@@ -0,0 +1,64 @@
+import { Api } from 'telegram';
+import type { MessageEntity, MessageEntityType } from './types';
+
+const ENTITY_TYPES: [
+  new (...args: never[]) => Api.TypeMessageEntity,
+  MessageEntityType,
+][] = [
+  [Api.MessageEntityBold, 'bold'],
+  [Api.MessageEntityItalic, 'italic'],
+  [Api.MessageEntityUnderline, 'underline'],
+  [Api.MessageEntityStrike, 'strike'],
+  [Api.MessageEntitySpoiler, 'spoiler'],
+  [Api.MessageEntityCode, 'code'],
+  [Api.MessageEntityPre, 'pre'],
+  [Api.MessageEntityBlockquote, 'blockquote'],
+  [Api.MessageEntityTextUrl, 'text_link'],
+  [Api.MessageEntityUrl, 'url'],
+  [Api.MessageEntityEmail, 'email'],
+  [Api.MessageEntityPhone, 'phone'],
+  [Api.MessageEntityMention, 'mention'],
+  [Api.MessageEntityMentionName, 'mention_name'],
+  [Api.MessageEntityHashtag, 'hashtag'],
+  [Api.MessageEntityCashtag, 'cashtag'],
+  [Api.MessageEntityBotCommand, 'bot_command'],
+  [Api.MessageEntityBankCard, 'bank_card'],
+  [Api.MessageEntityCustomEmoji, 'custom_emoji'],
+];
+
+// Convert Telegram's entity classes to plain offset/length spans,
+// dropping the ones we don't know how to show
+export function parseEntities(
+  entities: Api.TypeMessageEntity[] | undefined
+): MessageEntity[] | undefined {
+  if (!entities || entities.length === 0) {
+    return undefined;
+  }
+
+  const parsed: MessageEntity[] = [];
+
+  for (const entity of entities) {
+    const match = ENTITY_TYPES.find(([type]) => entity instanceof type);
+    if (!match) continue;
+
+    const result: MessageEntity = {
+      type: match[1],
+      offset: entity.offset,
+      length: entity.length,
+    };
+
+    if (entity instanceof Api.MessageEntityTextUrl) {
+      result.url = entity.url;
+    } else if (entity instanceof Api.MessageEntityMentionName) {
+      result.userId = entity.userId.toString();
+    } else if (entity instanceof Api.MessageEntityPre && entity.language) {
+      result.language = entity.language;
+    } else if (entity instanceof Api.MessageEntityCustomEmoji) {
+      result.customEmojiId = entity.documentId.toString();
+    }
+
+    parsed.push(result);
+  }
+
+  return parsed.length > 0 ? parsed : undefined;
+}
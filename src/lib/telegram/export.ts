@@ -0,0 +1,205 @@
+import { TelegramService } from './client';
+import { escapeHtml, renderHtml, renderMarkdown } from './formatting';
+import type { ParsedMessage } from './types';
+
+export type ExportFormat = 'jsonl' | 'csv' | 'markdown' | 'html';
+
+export interface TopicExportOptions {
+  format: ExportFormat;
+  // Unix timestamps (seconds), inclusive
+  from?: number;
+  to?: number;
+}
+
+interface ExportFormatter {
+  contentType: string;
+  extension: string;
+  header(title: string): string;
+  row(message: ParsedMessage): string;
+  footer(): string;
+}
+
+const formatDate = (date: number) => new Date(date * 1000).toISOString();
+
+const senderName = (message: ParsedMessage) =>
+  message.sender?.displayName || message.fromId || 'Unknown';
+
+const escapeCsv = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatter> = {
+  jsonl: {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    extension: 'jsonl',
+    header: () => '',
+    row: (message) => JSON.stringify(message) + '\n',
+    footer: () => '',
+  },
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv',
+    header: () => 'id,date,fromId,sender,replyToMsgId,topicId,text\n',
+    row: (message) =>
+      [
+        message.id,
+        formatDate(message.date),
+        message.fromId,
+        message.sender?.displayName,
+        message.replyToMsgId,
+        message.topicId,
+        message.text,
+      ]
+        .map(escapeCsv)
+        .join(',') + '\n',
+    footer: () => '',
+  },
+  markdown: {
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+    header: (title) => `# ${title}\n\n`,
+    row: (message) => {
+      const reply = message.replyToMsgId
+        ? ` (reply to #${message.replyToMsgId})`
+        : '';
+      const body = renderMarkdown(message.text, message.entities)
+        .split('\n')
+        .map((line) => `> ${line}`)
+        .join('\n');
+      return `**${senderName(message)}** · ${formatDate(
+        message.date
+      )} · #${message.id}${reply}\n\n${body}\n\n`;
+    },
+    footer: () => '',
+  },
+  html: {
+    contentType: 'text/html; charset=utf-8',
+    extension: 'html',
+    header: (title) =>
+      `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; color: #1f2937; }
+article { border-bottom: 1px solid #e5e7eb; padding: 0.75rem 0; }
+header { font-size: 0.8rem; color: #6b7280; }
+p { white-space: pre-wrap; word-break: break-word; margin: 0.25rem 0 0; }
+.tg-spoiler { background: #1f2937; color: transparent; border-radius: 0.2rem; }
+.tg-spoiler:hover { color: inherit; background: #e5e7eb; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+`,
+    row: (message) => {
+      const reply = message.replyToMsgId
+        ? ` · reply to <a href="#m${message.replyToMsgId}">#${message.replyToMsgId}</a>`
+        : '';
+      return `<article id="m${message.id}">
+<header>${escapeHtml(senderName(message))} · <time datetime="${formatDate(
+        message.date
+      )}">${formatDate(message.date)}</time> · #${message.id}${reply}</header>
+<p>${renderHtml(message.text, message.entities)}</p>
+</article>
+`;
+    },
+    footer: () => '</body>\n</html>\n',
+  },
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return Object.hasOwn(EXPORT_FORMATS, value);
+}
+
+// Where an export starting at `from` picks up: the newest message before
+// it. Found by walking back from the head, which the archive mostly
+// answers, rather than paging through everything older.
+async function exportStart(
+  service: TelegramService,
+  chatId: string | number,
+  topicId: number,
+  from: number | undefined
+) {
+  if (from === undefined) {
+    return 0;
+  }
+
+  let before: number | undefined;
+  while (true) {
+    const page = await service.getTopicHistory(chatId, topicId, { before });
+    // Pages come newest first
+    const earlier = page.messages.find((message) => message.date < from);
+    if (earlier) {
+      return earlier.id;
+    }
+    if (page.nextCursor === undefined) {
+      return 0;
+    }
+    before = page.nextCursor;
+  }
+}
+
+// Stream a topic oldest first, one history page at a time, so large
+// exports never sit in memory as a whole
+export function createTopicExportStream(
+  service: TelegramService,
+  chatId: string | number,
+  topicId: number,
+  options: TopicExportOptions
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const formatter = EXPORT_FORMATS[options.format];
+  let after: number | undefined;
+  let started = false;
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true;
+          const topics = await service.getForumTopics(chatId);
+          const topic = topics.find((t) => t.id === topicId);
+          controller.enqueue(
+            encoder.encode(formatter.header(topic?.title || `Topic ${topicId}`))
+          );
+          after = await exportStart(service, chatId, topicId, options.from);
+          return;
+        }
+
+        if (after === undefined) {
+          controller.enqueue(encoder.encode(formatter.footer()));
+          controller.close();
+          return;
+        }
+
+        const page = await service.getTopicHistory(chatId, topicId, { after });
+        after = page.nextCursor;
+
+        const rows = page.messages
+          .slice()
+          .reverse()
+          .filter(
+            (message) =>
+              (options.from === undefined || message.date >= options.from) &&
+              (options.to === undefined || message.date <= options.to)
+          )
+          .map(formatter.row)
+          .join('');
+
+        // Ids grow with time, so nothing after this page is in range
+        const last = page.messages[0];
+        if (last && options.to !== undefined && last.date > options.to) {
+          after = undefined;
+        }
+
+        controller.enqueue(encoder.encode(rows));
+      } catch (error) {
+        console.error('Error exporting topic:', error);
+        controller.error(error);
+      }
+    },
+  });
+}
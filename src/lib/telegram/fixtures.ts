@@ -0,0 +1,141 @@
+import fs from 'fs';
+import path from 'path';
+import { Api } from 'telegram';
+import { BinaryReader } from 'telegram/extensions';
+import { normalizeChatId } from './store';
+import type { ForumTopicInfo } from './types';
+
+// Recorded Telegram traffic. Messages, users and chats are kept in their
+// TL encoding, exactly as Telegram sent them, so replay (and tests) run
+// them through the same parsing and topic matching as live data.
+export interface TelegramFixture {
+  version: 1;
+  recordedAt: number;
+  // Chat key -> topics as returned by getForumTopics
+  topics: Record<string, ForumTopicInfo[]>;
+  // Chat key -> message id -> serialized Api.Message / Api.MessageService
+  messages: Record<string, Record<number, string>>;
+  // Peer id -> serialized Api.User / Api.Chat / Api.Channel
+  entities: Record<string, string>;
+  events: FixtureEvent[];
+}
+
+export interface FixtureEvent {
+  // Milliseconds since the start of the recording
+  at: number;
+  chatKey: string;
+  type: 'message' | 'edited' | 'deleted';
+  // Serialized Api.Message (or Api.MessageService) for message and edited
+  // events
+  raw?: string;
+  ids?: number[];
+}
+
+// Fixtures are written at most this often while recording
+const FLUSH_DELAY_MS = 1000;
+
+export const serializeTL = (object: { getBytes(): Buffer }) =>
+  object.getBytes().toString('base64');
+
+export const deserializeTL = (raw: string): unknown =>
+  new BinaryReader(Buffer.from(raw, 'base64')).tgReadObject();
+
+export function readFixture(file: string): TelegramFixture {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+// Captures traffic while TELEGRAM_MODE=record. An existing fixture is
+// extended, with new events placed after the ones already recorded.
+export class FixtureRecorder {
+  private fixture: TelegramFixture;
+  private startedAt = Date.now();
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private file: string) {
+    this.fixture = fs.existsSync(file)
+      ? readFixture(file)
+      : {
+          version: 1,
+          recordedAt: Date.now(),
+          topics: {},
+          messages: {},
+          entities: {},
+          events: [],
+        };
+
+    const lastEvent = this.fixture.events[this.fixture.events.length - 1];
+    if (lastEvent) {
+      this.startedAt -= lastEvent.at + FLUSH_DELAY_MS;
+    }
+  }
+
+  recordTopics(chatId: string | number, topics: ForumTopicInfo[]) {
+    this.fixture.topics[normalizeChatId(chatId)] = topics;
+    this.scheduleFlush();
+  }
+
+  recordMessages(chatId: string | number, messages: Api.TypeMessage[]) {
+    const key = normalizeChatId(chatId);
+    const stored = (this.fixture.messages[key] ||= {});
+
+    for (const message of messages) {
+      if (!(message instanceof Api.MessageEmpty)) {
+        stored[message.id] = serializeTL(message);
+      }
+    }
+    this.scheduleFlush();
+  }
+
+  recordEntities(entities: unknown[]) {
+    for (const entity of entities) {
+      if (
+        entity instanceof Api.User ||
+        entity instanceof Api.Chat ||
+        entity instanceof Api.Channel
+      ) {
+        this.fixture.entities[entity.id.toString()] = serializeTL(entity);
+      }
+    }
+    this.scheduleFlush();
+  }
+
+  recordEvent(
+    chatId: string | number,
+    event:
+      | {
+          type: 'message' | 'edited';
+          message: Api.Message | Api.MessageService;
+        }
+      | { type: 'deleted'; ids: number[] }
+  ) {
+    this.fixture.events.push({
+      at: Date.now() - this.startedAt,
+      chatKey: normalizeChatId(chatId),
+      type: event.type,
+      ...(event.type === 'deleted'
+        ? { ids: event.ids }
+        : { raw: serializeTL(event.message) }),
+    });
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      try {
+        this.flush();
+      } catch (error) {
+        console.error('Error writing Telegram fixture:', error);
+      }
+    }, FLUSH_DELAY_MS);
+  }
+
+  flush() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmpFile = `${this.file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(this.fixture));
+    fs.renameSync(tmpFile, this.file);
+  }
+}
@@ -0,0 +1,32 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderMarkdown } from './formatting';
+import type { MessageEntity } from './types';
+
+const whole = (type: MessageEntity['type'], text: string, language?: string) =>
+  renderMarkdown(text, [
+    { type, offset: 0, length: text.length, ...(language && { language }) },
+  ]);
+
+describe('renderMarkdown', () => {
+  it('fences code spans with single backticks', () => {
+    assert.equal(whole('code', 'npm test'), '`npm test`');
+  });
+
+  it('fences code spans past the backticks inside them', () => {
+    assert.equal(whole('code', 'a ` b'), '``a ` b``');
+    assert.equal(whole('code', 'a `` b'), '```a `` b```');
+  });
+
+  it('pads code spans that start or end with a backtick', () => {
+    assert.equal(whole('code', '`x`'), '`` `x` ``');
+  });
+
+  it('fences pre blocks past the backtick runs inside them', () => {
+    assert.equal(whole('pre', 'echo hi', 'sh'), '\n```sh\necho hi\n```\n');
+    assert.equal(
+      whole('pre', '```js\nx\n```'),
+      '\n````\n```js\nx\n```\n````\n'
+    );
+  });
+});
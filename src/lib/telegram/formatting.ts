@@ -0,0 +1,218 @@
+import type { MessageEntity } from './types';
+
+// Plain text, or a formatted span with its own nested spans
+export type EntityNode =
+  string | { entity: MessageEntity; text: string; children: EntityNode[] };
+
+export type TextFormat = 'plain' | 'markdown' | 'html';
+
+// Telegram entities are either disjoint or fully nested, so they form a
+// tree over the text. Malformed partial overlaps are dropped.
+export function buildEntityTree(
+  text: string,
+  entities: MessageEntity[] = []
+): EntityNode[] {
+  const sorted = entities
+    .filter(
+      (entity) =>
+        entity.length > 0 &&
+        entity.offset >= 0 &&
+        entity.offset + entity.length <= text.length
+    )
+    .sort((a, b) => a.offset - b.offset || b.length - a.length);
+
+  return buildNodes(text, sorted, 0, text.length);
+}
+
+function buildNodes(
+  text: string,
+  entities: MessageEntity[],
+  start: number,
+  end: number
+): EntityNode[] {
+  const nodes: EntityNode[] = [];
+  let cursor = start;
+  let index = 0;
+
+  while (index < entities.length) {
+    const entity = entities[index];
+    const entityEnd = entity.offset + entity.length;
+
+    // Everything starting inside this entity belongs to its subtree
+    let next = index + 1;
+    while (next < entities.length && entities[next].offset < entityEnd) {
+      next++;
+    }
+
+    if (entity.offset > cursor) {
+      nodes.push(text.slice(cursor, entity.offset));
+    }
+
+    const children = entities
+      .slice(index + 1, next)
+      .filter((child) => child.offset + child.length <= entityEnd);
+
+    nodes.push({
+      entity,
+      text: text.slice(entity.offset, entityEnd),
+      children: buildNodes(text, children, entity.offset, entityEnd),
+    });
+
+    cursor = entityEnd;
+    index = next;
+  }
+
+  if (cursor < end) {
+    nodes.push(text.slice(cursor, end));
+  }
+
+  return nodes;
+}
+
+const SAFE_URL = /^(https?:|mailto:|tel:|tg:)/i;
+
+// Link target for an entity, or undefined if it isn't a (safe) link
+export function entityHref(
+  entity: MessageEntity,
+  text: string
+): string | undefined {
+  let href: string | undefined;
+
+  switch (entity.type) {
+    case 'text_link':
+      href = entity.url;
+      break;
+    case 'url':
+      href = /^[a-z][a-z0-9+.-]*:/i.test(text) ? text : `https://${text}`;
+      break;
+    case 'email':
+      href = `mailto:${text}`;
+      break;
+    case 'phone':
+      href = `tel:${text.replace(/[^\d+]/g, '')}`;
+      break;
+    case 'mention':
+      href = `https://t.me/${text.replace(/^@/, '')}`;
+      break;
+    case 'mention_name':
+      href = entity.userId ? `tg://user?id=${entity.userId}` : undefined;
+      break;
+  }
+
+  return href && SAFE_URL.test(href) ? href : undefined;
+}
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+function renderHtmlNodes(nodes: EntityNode[]): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') {
+        return escapeHtml(node);
+      }
+
+      const inner = renderHtmlNodes(node.children);
+      const href = entityHref(node.entity, node.text);
+      if (href) {
+        return `<a href="${escapeHtml(href)}">${inner}</a>`;
+      }
+
+      switch (node.entity.type) {
+        case 'bold':
+          return `<b>${inner}</b>`;
+        case 'italic':
+          return `<i>${inner}</i>`;
+        case 'underline':
+          return `<u>${inner}</u>`;
+        case 'strike':
+          return `<s>${inner}</s>`;
+        case 'spoiler':
+          return `<span class="tg-spoiler">${inner}</span>`;
+        case 'code':
+          return `<code>${inner}</code>`;
+        case 'pre':
+          return node.entity.language
+            ? `<pre><code class="language-${escapeHtml(
+                node.entity.language
+              )}">${inner}</code></pre>`
+            : `<pre>${inner}</pre>`;
+        case 'blockquote':
+          return `<blockquote>${inner}</blockquote>`;
+        default:
+          return inner;
+      }
+    })
+    .join('');
+}
+
+export function renderHtml(text: string, entities?: MessageEntity[]): string {
+  return renderHtmlNodes(buildEntityTree(text, entities));
+}
+
+const escapeMarkdown = (text: string) => text.replace(/[\\`*_~[\]|]/g, '\\$&');
+
+// At least `min` backticks, and more than the longest run of them in `text`
+const backtickFence = (text: string, min: number) =>
+  '`'.repeat(
+    Math.max(min, ...(text.match(/`+/g) || []).map((run) => run.length + 1))
+  );
+
+function renderMarkdownNodes(nodes: EntityNode[]): string {
+  return nodes
+    .map((node) => {
+      if (typeof node === 'string') {
+        return escapeMarkdown(node);
+      }
+
+      // Code is literal, so its content is neither escaped nor nested.
+      // The fences outrun any backticks inside. Spans starting or ending
+      // with a backtick or space get padded, as Markdown strips one space.
+      if (node.entity.type === 'code') {
+        const fence = backtickFence(node.text, 1);
+        const pad = /^[ `]|[ `]$/.test(node.text) ? ' ' : '';
+        return `${fence}${pad}${node.text}${pad}${fence}`;
+      }
+      if (node.entity.type === 'pre') {
+        const fence = backtickFence(node.text, 3);
+        return `\n${fence}${node.entity.language || ''}\n${node.text}\n${fence}\n`;
+      }
+
+      const inner = renderMarkdownNodes(node.children);
+      const href = entityHref(node.entity, node.text);
+      if (href) {
+        return `[${inner}](${href.replace(/[()]/g, '\\$&')})`;
+      }
+
+      switch (node.entity.type) {
+        case 'bold':
+          return `**${inner}**`;
+        case 'italic':
+          return `_${inner}_`;
+        case 'strike':
+          return `~~${inner}~~`;
+        case 'spoiler':
+          return `||${inner}||`;
+        case 'blockquote':
+          return inner
+            .split('\n')
+            .map((line) => `> ${line}`)
+            .join('\n');
+        default:
+          return inner;
+      }
+    })
+    .join('');
+}
+
+export function renderMarkdown(
+  text: string,
+  entities?: MessageEntity[]
+): string {
+  return renderMarkdownNodes(buildEntityTree(text, entities));
+}
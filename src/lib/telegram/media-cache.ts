@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR, normalizeChatId } from './store';
+
+const MEDIA_DIR = path.join(DATA_DIR, 'media');
+
+export type MediaVariant = 'file' | 'thumb';
+
+export interface CachedMedia {
+  path: string;
+  contentType: string;
+  fileName?: string;
+  size: number;
+}
+
+interface DownloadResult {
+  contentType: string;
+  fileName?: string;
+}
+
+// Downloaded media files on disk, one file plus a metadata sidecar per
+// key and variant. Keys are message ids within a chat, or any other name
+// that changes whenever the file does (e.g. a profile photo id).
+export class MediaCache {
+  private inflight = new Map<string, Promise<CachedMedia | null>>();
+
+  constructor(private dir: string = MEDIA_DIR) {}
+
+  private basePath(
+    scope: string | number,
+    key: number | string,
+    variant: MediaVariant
+  ) {
+    // Scopes and keys become path segments; never let one climb out
+    if (!/^[\w-]+$/.test(String(scope)) || !/^[\w-]+$/.test(String(key))) {
+      throw new Error(`Invalid media cache key ${scope}/${key}`);
+    }
+    return path.join(this.dir, normalizeChatId(scope), `${key}.${variant}`);
+  }
+
+  get(
+    scope: string | number,
+    key: number | string,
+    variant: MediaVariant
+  ): CachedMedia | null {
+    const base = this.basePath(scope, key, variant);
+    const metaFile = `${base}.json`;
+
+    if (!fs.existsSync(metaFile) || !fs.existsSync(base)) {
+      return null;
+    }
+
+    const meta: DownloadResult = JSON.parse(fs.readFileSync(metaFile, 'utf8'));
+    return { ...meta, path: base, size: fs.statSync(base).size };
+  }
+
+  // Return the cached file, downloading it first if needed. Concurrent
+  // requests for the same file share one download.
+  async getOrDownload(
+    scope: string | number,
+    key: number | string,
+    variant: MediaVariant,
+    download: (outputFile: string) => Promise<DownloadResult | null>
+  ): Promise<CachedMedia | null> {
+    const cached = this.get(scope, key, variant);
+    if (cached) {
+      return cached;
+    }
+
+    const base = this.basePath(scope, key, variant);
+    const pending = this.inflight.get(base);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = (async () => {
+      fs.mkdirSync(path.dirname(base), { recursive: true });
+      const tmpFile = `${base}.part`;
+
+      try {
+        const result = await download(tmpFile);
+        if (!result || !fs.existsSync(tmpFile)) {
+          return null;
+        }
+
+        fs.renameSync(tmpFile, base);
+        fs.writeFileSync(`${base}.json`, JSON.stringify(result));
+        return this.get(scope, key, variant);
+      } finally {
+        fs.rmSync(tmpFile, { force: true });
+        this.inflight.delete(base);
+      }
+    })();
+
+    this.inflight.set(base, promise);
+    return promise;
+  }
+}
+
+const globalForMedia = globalThis as unknown as { mediaCache?: MediaCache };
+
+export function getMediaCache() {
+  if (!globalForMedia.mediaCache) {
+    globalForMedia.mediaCache = new MediaCache();
+  }
+  return globalForMedia.mediaCache;
+}
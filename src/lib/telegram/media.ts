@@ -0,0 +1,111 @@
+import { Api } from 'telegram';
+import type { MessageMedia } from './types';
+
+// Largest photo size that isn't an inline preview, with its dimensions
+function largestPhotoSize(photo: Api.Photo) {
+  let best: { w: number; h: number; size: number } | undefined;
+
+  for (const size of photo.sizes) {
+    let bytes = 0;
+    if (size instanceof Api.PhotoSize) {
+      bytes = size.size;
+    } else if (size instanceof Api.PhotoSizeProgressive) {
+      bytes = Math.max(...size.sizes);
+    } else {
+      continue;
+    }
+
+    if (!best || bytes > best.size) {
+      best = { w: size.w, h: size.h, size: bytes };
+    }
+  }
+
+  return best;
+}
+
+// Describe a message's attachment without downloading it
+export function parseMedia(
+  media: Api.TypeMessageMedia | undefined
+): MessageMedia | undefined {
+  if (!media || media instanceof Api.MessageMediaEmpty) {
+    return undefined;
+  }
+
+  // Link previews are part of the text, not an attachment
+  if (media instanceof Api.MessageMediaWebPage) {
+    return undefined;
+  }
+
+  if (media instanceof Api.MessageMediaPhoto) {
+    if (!(media.photo instanceof Api.Photo)) {
+      return undefined;
+    }
+    const size = largestPhotoSize(media.photo);
+    return {
+      kind: 'photo',
+      mimeType: 'image/jpeg',
+      size: size?.size,
+      width: size?.w,
+      height: size?.h,
+      hasThumbnail: true,
+    };
+  }
+
+  if (media instanceof Api.MessageMediaDocument) {
+    const document = media.document;
+    if (!(document instanceof Api.Document)) {
+      return undefined;
+    }
+
+    const result: MessageMedia = {
+      kind: 'document',
+      mimeType: document.mimeType,
+      size: document.size.toJSNumber(),
+      hasThumbnail: Boolean(pickThumbnail(document.thumbs)),
+    };
+
+    for (const attribute of document.attributes) {
+      if (attribute instanceof Api.DocumentAttributeFilename) {
+        result.fileName = attribute.fileName;
+      } else if (attribute instanceof Api.DocumentAttributeImageSize) {
+        result.width = attribute.w;
+        result.height = attribute.h;
+      } else if (attribute instanceof Api.DocumentAttributeVideo) {
+        result.width = attribute.w;
+        result.height = attribute.h;
+        result.duration = attribute.duration;
+        if (result.kind === 'document') {
+          result.kind = attribute.roundMessage ? 'video_note' : 'video';
+        }
+      } else if (attribute instanceof Api.DocumentAttributeAudio) {
+        result.duration = attribute.duration;
+        result.kind = attribute.voice ? 'voice' : 'audio';
+      } else if (attribute instanceof Api.DocumentAttributeSticker) {
+        result.kind = 'sticker';
+      } else if (attribute instanceof Api.DocumentAttributeAnimated) {
+        // GIFs are sent as silent mp4s, which also carry a video attribute
+        if (result.kind !== 'sticker') {
+          result.kind = 'animation';
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Polls, locations, contacts, games and the like
+  return { kind: 'other' };
+}
+
+// A preview-sized thumbnail (Telegram's "m" size, ~320px) if there is one
+export function pickThumbnail(
+  sizes: Api.TypePhotoSize[] | undefined
+): Api.PhotoSize | undefined {
+  const candidates = (sizes || []).filter(
+    (size): size is Api.PhotoSize => size instanceof Api.PhotoSize
+  );
+  return (
+    candidates.find((size) => size.type === 'm') ||
+    candidates.sort((a, b) => a.size - b.size)[0]
+  );
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Accepts unix seconds or anything Date can parse (e.g. 2025-01-31).
+// Returns undefined when absent and null when unparseable.
+export function parseDateParam(
+  value: string | null
+): number | undefined | null {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value);
+
+  const time = Date.parse(value);
+  return isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+// A positive integer such as a message id or page size. Returns undefined
+// when absent and null when it's anything else.
+export function parsePositiveIntParam(
+  value: string | null
+): number | undefined | null {
+  if (value === null) return undefined;
+  return /^\d+$/.test(value) && parseInt(value) > 0 ? parseInt(value) : null;
+}
+
+// The 400 for chatId (and topicId) params that name nothing configured
+export function unknownTargetResponse(what: 'chat' | 'topic' = 'topic') {
+  return NextResponse.json(
+    what === 'chat'
+      ? {
+          success: false,
+          error: 'Unknown chat',
+          details: 'chatId must be a configured alias or id',
+        }
+      : {
+          success: false,
+          error: 'Unknown chat or topic',
+          details: 'chatId and topicId must be configured aliases or ids',
+        },
+    { status: 400 }
+  );
+}
+
+// A request's JSON body when it's an object. A missing or unparseable body
+// reads as `{}`, any other JSON (null, a list, ...) as null.
+export async function readJsonObject(
+  request: NextRequest
+): Promise<Record<string, unknown> | null> {
+  const body: unknown = await request.json().catch(() => ({}));
+  return typeof body === 'object' && body !== null && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : null;
+}
+
+// The 400 for bodies readJsonObject turned down
+export function invalidBodyResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Invalid request body',
+      details: 'The body must be a JSON object',
+    },
+    { status: 400 }
+  );
+}
@@ -0,0 +1,182 @@
+import { Api, TelegramClient } from 'telegram';
+import { TelegramService } from './client';
+import {
+  deserializeTL,
+  FixtureEvent,
+  readFixture,
+  TelegramFixture,
+} from './fixtures';
+import { normalizeChatId } from './store';
+import { messageTopicId } from './topics';
+import type {
+  ForumTopicInfo,
+  MessagePageOptions,
+  MessageSender,
+} from './types';
+import { AccountConfig } from '../config';
+
+type RawMessage = Api.Message | Api.MessageService;
+
+const isRawMessage = (value: unknown): value is RawMessage =>
+  value instanceof Api.Message || value instanceof Api.MessageService;
+
+// Serves a recorded fixture instead of Telegram (TELEGRAM_MODE=replay).
+// Pages are cut from the recorded messages with the real topic matching,
+// and live events play back on their recorded schedule from the moment
+// the first stream subscriber joins, just as they'd keep arriving from
+// Telegram whether anyone listens or not.
+export class ReplayTelegramService extends TelegramService {
+  private fixture: TelegramFixture;
+  // Chat key -> messages, newest first
+  private messages = new Map<string, RawMessage[]>();
+  private entities = new Map<string, unknown>();
+  private playbackStarted = false;
+
+  constructor(account: AccountConfig, file: string) {
+    super(account);
+    this.fixture = readFixture(file);
+
+    for (const [chatKey, raw] of Object.entries(this.fixture.messages)) {
+      const messages = Object.values(raw)
+        .map(deserializeTL)
+        .filter(isRawMessage)
+        .sort((a, b) => b.id - a.id);
+      this.messages.set(chatKey, messages);
+    }
+    for (const [peerId, raw] of Object.entries(this.fixture.entities)) {
+      this.entities.set(peerId, deserializeTL(raw));
+    }
+
+    console.log(
+      `Replaying Telegram fixture ${file} (${this.fixture.events.length} events)`
+    );
+  }
+
+  // Anything that isn't recorded (downloads, search, ...) is unavailable
+  async connect(): Promise<TelegramClient> {
+    throw new Error('Telegram is not available in replay mode');
+  }
+
+  async getForumTopics(chatId: string | number): Promise<ForumTopicInfo[]> {
+    return this.fixture.topics[normalizeChatId(chatId)] || [];
+  }
+
+  protected async fetchTopicMessages(
+    chatId: string | number,
+    topicId: number,
+    options: MessagePageOptions,
+    limit: number
+  ): Promise<Api.TypeMessage[]> {
+    const { before, after } = options;
+    const inTopic = (this.messages.get(normalizeChatId(chatId)) || []).filter(
+      (message) => messageTopicId(message) === topicId
+    );
+
+    // Walking forward takes the page just above the cursor
+    if (after !== undefined && before === undefined) {
+      return inTopic.filter((message) => message.id > after).slice(-limit);
+    }
+
+    return inTopic
+      .filter(
+        (message) =>
+          (!before || message.id < before) &&
+          (after === undefined || message.id > after)
+      )
+      .slice(0, limit);
+  }
+
+  protected async fetchMessagesByIds(
+    chatId: string | number,
+    ids: number[]
+  ): Promise<Api.TypeMessage[]> {
+    return (this.messages.get(normalizeChatId(chatId)) || []).filter(
+      (message) => ids.includes(message.id)
+    );
+  }
+
+  protected async fetchSenderMessages(
+    chatId: string | number,
+    sender: Pick<MessageSender, 'id' | 'kind'>,
+    beforeId: number,
+    topicId: number | undefined,
+    limit: number
+  ): Promise<Api.TypeMessage[]> {
+    return (this.messages.get(normalizeChatId(chatId)) || [])
+      .filter(
+        (message) =>
+          message.id < beforeId &&
+          this.extractPeerId(message.fromId || message.peerId) === sender.id &&
+          (topicId === undefined || messageTopicId(message) === topicId)
+      )
+      .slice(0, limit);
+  }
+
+  protected async fetchSenderEntity(peer: Api.TypePeer): Promise<unknown> {
+    const peerId = this.extractPeerId(peer);
+    const entity = this.entities.get(peerId);
+    if (!entity) {
+      throw new Error(`Peer ${peerId} is not in the fixture`);
+    }
+    return entity;
+  }
+
+  protected async openStream() {
+    if (this.playbackStarted) return;
+    this.playbackStarted = true;
+
+    const startedAt = Date.now();
+    const events = this.fixture.events;
+    let index = 0;
+
+    // One timer at a time, each waiting for the next event's offset
+    const playNext = () => {
+      while (
+        index < events.length &&
+        events[index].at <= Date.now() - startedAt
+      ) {
+        this.playEvent(events[index++]);
+      }
+      if (index < events.length) {
+        setTimeout(playNext, events[index].at - (Date.now() - startedAt));
+      } else {
+        console.log('Telegram fixture playback finished');
+      }
+    };
+    // Deferred so the subscriber opening the stream is registered first
+    setTimeout(playNext, 0);
+  }
+
+  protected closeStream() {
+    // Playback keeps going, like Telegram would
+  }
+
+  // Apply an event to the recorded history, then deliver it the same way
+  // a live update would be
+  private playEvent(event: FixtureEvent) {
+    const messages = this.messages.get(event.chatKey) || [];
+
+    if (event.type === 'deleted') {
+      const ids = event.ids || [];
+      this.messages.set(
+        event.chatKey,
+        messages.filter((message) => !ids.includes(message.id))
+      );
+      this.handleDeletedIds(event.chatKey, ids);
+      return;
+    }
+
+    const message = event.raw && deserializeTL(event.raw);
+    if (!isRawMessage(message)) return;
+
+    this.messages.set(
+      event.chatKey,
+      [...messages.filter((m) => m.id !== message.id), message].sort(
+        (a, b) => b.id - a.id
+      )
+    );
+    this.handleMessageEvent(message, event.type).catch((error) =>
+      console.error('Error replaying message event:', error)
+    );
+  }
+}
@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server';
+import { errors } from 'telegram';
+
+// Calls allowed per Telegram method within a sliding window. Telegram
+// doesn't publish its limits; these keep a burst of page loads or a
+// backfill clear of flood waits.
+interface RateBudget {
+  calls: number;
+  windowMs: number;
+}
+
+const DEFAULT_BUDGET: RateBudget = { calls: 10, windowMs: 1000 };
+
+const BUDGETS: Record<string, RateBudget> = {
+  'messages.GetReplies': { calls: 3, windowMs: 1000 },
+  'messages.GetHistory': { calls: 3, windowMs: 1000 },
+  'messages.Search': { calls: 1, windowMs: 1000 },
+  'channels.GetForumTopics': { calls: 2, windowMs: 1000 },
+  'channels.GetMessages': { calls: 3, windowMs: 1000 },
+  'messages.GetCustomEmojiDocuments': { calls: 1, windowMs: 1000 },
+  'messages.SendMessage': { calls: 1, windowMs: 1000 },
+  getEntity: { calls: 5, windowMs: 1000 },
+  download: { calls: 3, windowMs: 1000 },
+};
+
+// Flood waits up to this long are slept through and retried; anything
+// longer goes back to the caller as a RateLimitedError
+const MAX_FLOOD_SLEEP_S = 30;
+const MAX_FLOOD_RETRIES = 3;
+
+export class RateLimitedError extends Error {
+  constructor(
+    public method: string,
+    // Seconds until Telegram accepts the method again
+    public retryAfter: number
+  ) {
+    super(`Telegram rate limit on ${method}, retry in ${retryAfter}s`);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// The 429 for a route to send back when Telegram rate limited it, or null
+// for any other error. Telegram wants a longer break than is worth holding
+// the request for, so the caller is told when to come back instead.
+export function rateLimitedResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof RateLimitedError)) {
+    return null;
+  }
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Rate limited by Telegram',
+      details: error.message,
+      retryAfter: error.retryAfter,
+    },
+    {
+      status: 429,
+      headers: { 'Retry-After': error.retryAfter.toString() },
+    }
+  );
+}
+
+export interface SchedulerStatus {
+  // Methods Telegram has us waiting on, and until when (epoch ms)
+  floodWaits: { method: string; until: number }[];
+  // Epoch milliseconds
+  lastSuccessAt?: number;
+  lastError?: { method: string; message: string; at: number };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Every Telegram call of a service goes through its scheduler, which
+// spaces calls out per method, sleeps through short flood waits and
+// shares one round trip between identical calls made at the same time.
+export class RequestScheduler {
+  // Method -> start times of recent calls, oldest first
+  private recent = new Map<string, number[]>();
+  // Method -> when Telegram accepts it again after a flood wait
+  private blockedUntil = new Map<string, number>();
+  // Coalescing key -> the call in flight
+  private inFlight = new Map<string, Promise<unknown>>();
+  private lastSuccessAt?: number;
+  private lastError?: SchedulerStatus['lastError'];
+
+  // Run a call against `method`'s budget. Callers passing the same key
+  // while a call is in flight get its result instead of a new request.
+  run<T>(method: string, key: string | null, call: () => Promise<T>) {
+    if (key === null) {
+      return this.execute(method, call);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = this.execute(method, call).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private async execute<T>(method: string, call: () => Promise<T>) {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(method);
+
+      try {
+        const result = await call();
+        this.lastSuccessAt = Date.now();
+        return result;
+      } catch (error) {
+        if (!(error instanceof errors.FloodWaitError)) {
+          this.lastError = {
+            method,
+            message: error instanceof Error ? error.message : String(error),
+            at: Date.now(),
+          };
+          throw error;
+        }
+
+        // Hold back every caller of the method, not just this one
+        const until = Date.now() + error.seconds * 1000;
+        this.blockedUntil.set(
+          method,
+          Math.max(this.blockedUntil.get(method) || 0, until)
+        );
+        console.warn(`Telegram flood wait of ${error.seconds}s on ${method}`);
+
+        if (error.seconds > MAX_FLOOD_SLEEP_S || attempt >= MAX_FLOOD_RETRIES) {
+          throw new RateLimitedError(method, error.seconds);
+        }
+      }
+    }
+  }
+
+  getStatus(): SchedulerStatus {
+    const now = Date.now();
+
+    return {
+      floodWaits: [...this.blockedUntil]
+        .filter(([, until]) => until > now)
+        .map(([method, until]) => ({ method, until })),
+      lastSuccessAt: this.lastSuccessAt,
+      lastError: this.lastError,
+    };
+  }
+
+  // Wait for a free slot in the method's budget. While the method is
+  // blocked for longer than we'd sleep, fail straight away instead.
+  private async acquire(method: string) {
+    const budget = BUDGETS[method] || DEFAULT_BUDGET;
+
+    while (true) {
+      const now = Date.now();
+      const blockedUntil = this.blockedUntil.get(method) || 0;
+
+      if (blockedUntil > now) {
+        const wait = blockedUntil - now;
+        if (wait > MAX_FLOOD_SLEEP_S * 1000) {
+          throw new RateLimitedError(method, Math.ceil(wait / 1000));
+        }
+        await sleep(wait);
+        continue;
+      }
+
+      const recent = (this.recent.get(method) || []).filter(
+        (startedAt) => startedAt > now - budget.windowMs
+      );
+      this.recent.set(method, recent);
+
+      if (recent.length < budget.calls) {
+        recent.push(now);
+        return;
+      }
+      await sleep(recent[0] + budget.windowMs - now);
+    }
+  }
+}
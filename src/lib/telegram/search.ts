@@ -0,0 +1,183 @@
+import { matchesSender } from './senders';
+import { getMessageStore, MessageStore, normalizeChatId } from './store';
+import type { ParsedMessage } from './types';
+
+export interface SearchFilters {
+  query: string;
+  topicId?: number;
+  // Sender id or @username
+  sender?: string;
+  // Unix timestamps (seconds), inclusive
+  from?: number;
+  to?: number;
+  hasMedia?: boolean;
+  hasLink?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchHit {
+  message: ParsedMessage;
+  score: number;
+}
+
+export interface SearchResult {
+  total: number;
+  hits: SearchHit[];
+}
+
+interface ChatIndex {
+  // token -> message id -> occurrences
+  postings: Map<string, Map<number, number>>;
+  // message id -> indexed tokens, so re-indexing an edit can undo them
+  tokens: Map<number, string[]>;
+}
+
+// Built with the constructor so the unicode flag isn't checked against
+// the compile target
+const TOKEN_PATTERN = new RegExp('[\\p{L}\\p{N}_]+', 'gu');
+const LINK_PATTERN = /https?:\/\/|www\./i;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) || [];
+}
+
+export function hasLink(message: ParsedMessage) {
+  return (
+    Boolean(
+      message.entities?.some(
+        (entity) => entity.type === 'url' || entity.type === 'text_link'
+      )
+    ) || LINK_PATTERN.test(message.text)
+  );
+}
+
+// Inverted index over the message store. Each chat is indexed on its first
+// search and then kept current by listening to store writes.
+export class SearchIndex {
+  private chats = new Map<string, ChatIndex>();
+
+  constructor(private store: MessageStore) {
+    store.addListener((chatKey, messages) => {
+      const index = this.chats.get(chatKey);
+      if (index) {
+        for (const message of messages) {
+          this.indexMessage(index, message);
+        }
+      }
+    });
+  }
+
+  private getIndex(chatId: string | number): ChatIndex {
+    const key = normalizeChatId(chatId);
+    let index = this.chats.get(key);
+
+    if (!index) {
+      index = { postings: new Map(), tokens: new Map() };
+      for (const message of this.store.listMessages(chatId)) {
+        this.indexMessage(index, message);
+      }
+      this.chats.set(key, index);
+    }
+
+    return index;
+  }
+
+  private indexMessage(index: ChatIndex, message: ParsedMessage) {
+    for (const token of index.tokens.get(message.id) || []) {
+      index.postings.get(token)?.delete(message.id);
+    }
+
+    const tokens = tokenize(
+      [message.text, message.media?.fileName].filter(Boolean).join(' ')
+    );
+    index.tokens.set(message.id, tokens);
+
+    for (const token of tokens) {
+      let posting = index.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        index.postings.set(token, posting);
+      }
+      posting.set(message.id, (posting.get(message.id) || 0) + 1);
+    }
+  }
+
+  // Occurrences per message of a term; the last term of a query also
+  // matches as a prefix so results update while typing
+  private termMatches(index: ChatIndex, term: string, prefix: boolean) {
+    if (!prefix) {
+      return index.postings.get(term) || new Map<number, number>();
+    }
+
+    const matches = new Map<number, number>();
+    for (const [token, posting] of index.postings) {
+      if (!token.startsWith(term)) continue;
+      for (const [id, count] of posting) {
+        matches.set(id, (matches.get(id) || 0) + count);
+      }
+    }
+    return matches;
+  }
+
+  // Messages containing every query term, best matches first, newest
+  // first among equals. An empty query lists everything the filters allow.
+  search(chatId: string | number, filters: SearchFilters): SearchResult {
+    const index = this.getIndex(chatId);
+    const terms = tokenize(filters.query);
+    let scores: Map<number, number> | null = null;
+
+    for (let i = 0; i < terms.length; i++) {
+      const matches = this.termMatches(index, terms[i], i === terms.length - 1);
+      const next = new Map<number, number>();
+
+      for (const [id, count] of matches) {
+        if (scores === null || scores.has(id)) {
+          next.set(id, (scores?.get(id) || 0) + count);
+        }
+      }
+      scores = next;
+    }
+
+    const candidates: [number, number][] = scores
+      ? Array.from(scores.entries())
+      : Array.from(index.tokens.keys()).map((id) => [id, 0]);
+
+    const hits: SearchHit[] = [];
+    for (const [id, score] of candidates) {
+      const message = this.store.getMessage(chatId, id);
+      if (!message) continue;
+
+      if (
+        (filters.topicId !== undefined &&
+          message.topicId !== filters.topicId) ||
+        (filters.sender && !matchesSender(message, filters.sender)) ||
+        (filters.from !== undefined && message.date < filters.from) ||
+        (filters.to !== undefined && message.date > filters.to) ||
+        (filters.hasMedia && !message.media) ||
+        (filters.hasLink && !hasLink(message))
+      ) {
+        continue;
+      }
+
+      hits.push({ message, score });
+    }
+
+    hits.sort((a, b) => b.score - a.score || b.message.id - a.message.id);
+
+    const offset = filters.offset || 0;
+    return {
+      total: hits.length,
+      hits: hits.slice(offset, offset + (filters.limit || 50)),
+    };
+  }
+}
+
+const globalForSearch = globalThis as unknown as { searchIndex?: SearchIndex };
+
+export function getSearchIndex() {
+  if (!globalForSearch.searchIndex) {
+    globalForSearch.searchIndex = new SearchIndex(getMessageStore());
+  }
+  return globalForSearch.searchIndex;
+}
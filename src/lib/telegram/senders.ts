@@ -0,0 +1,90 @@
+import { Api } from 'telegram';
+import type { MessageSender, ParsedMessage } from './types';
+
+// Profiles rarely change; an hour keeps names fresh without refetching
+// an entity for every message from the same person
+const SENDER_TTL_MS = 60 * 60 * 1000;
+
+type SenderEntity = Api.User | Api.Chat | Api.Channel;
+
+export function isSenderEntity(entity: unknown): entity is SenderEntity {
+  return (
+    entity instanceof Api.User ||
+    entity instanceof Api.Chat ||
+    entity instanceof Api.Channel
+  );
+}
+
+// Whether a message is from the given sender id or @username
+export function matchesSender(message: ParsedMessage, sender: string) {
+  const username = sender.replace(/^@/, '').toLowerCase();
+  return (
+    message.fromId === sender ||
+    message.sender?.id === sender ||
+    message.sender?.username?.toLowerCase() === username
+  );
+}
+
+export function senderFromEntity(entity: SenderEntity): MessageSender {
+  if (entity instanceof Api.User) {
+    const name = [entity.firstName, entity.lastName].filter(Boolean).join(' ');
+    return {
+      id: entity.id.toString(),
+      kind: entity.bot ? 'bot' : 'user',
+      displayName:
+        name || entity.username || (entity.deleted ? 'Deleted Account' : ''),
+      username: entity.username,
+      avatarId:
+        entity.photo instanceof Api.UserProfilePhoto
+          ? entity.photo.photoId.toString()
+          : undefined,
+    };
+  }
+
+  return {
+    id: entity.id.toString(),
+    kind:
+      entity instanceof Api.Channel && entity.broadcast ? 'channel' : 'group',
+    displayName: entity.title,
+    username: entity instanceof Api.Channel ? entity.username : undefined,
+    avatarId:
+      entity.photo instanceof Api.ChatPhoto
+        ? entity.photo.photoId.toString()
+        : undefined,
+  };
+}
+
+// In-memory sender profiles keyed by peer id, each kept for SENDER_TTL_MS
+export class SenderCache {
+  private entries = new Map<
+    string,
+    { sender: MessageSender; expiresAt: number }
+  >();
+
+  get(peerId: string): MessageSender | undefined {
+    const entry = this.entries.get(peerId);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt < Date.now()) {
+      this.entries.delete(peerId);
+      return undefined;
+    }
+    return entry.sender;
+  }
+
+  set(sender: MessageSender) {
+    this.entries.set(sender.id, {
+      sender,
+      expiresAt: Date.now() + SENDER_TTL_MS,
+    });
+  }
+
+  // Remember the users and chats Telegram sends alongside messages
+  prime(entities: unknown[]) {
+    for (const entity of entities) {
+      if (isSenderEntity(entity)) {
+        this.set(senderFromEntity(entity));
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { TelegramService } from './client';
+import { FixtureRecorder } from './fixtures';
+import { ReplayTelegramService } from './replay';
+import { AccountConfig, getConfig, resolveChat } from '../config';
+
+// Keep one service (and one MTProto connection) per account per server
+// process. Stored on globalThis so dev-mode module reloads don't open
+// new ones.
+const globalForTelegram = globalThis as unknown as {
+  telegramServices?: Map<string, TelegramService>;
+  fixtureRecorder?: FixtureRecorder;
+};
+
+function createTelegramService(account: AccountConfig) {
+  const { mode, fixtureFile } = getConfig().telegram;
+
+  switch (mode) {
+    case 'replay':
+      return new ReplayTelegramService(account, fixtureFile);
+    case 'record':
+      // Every account records into the same fixture
+      if (!globalForTelegram.fixtureRecorder) {
+        console.log(`Recording Telegram traffic to ${fixtureFile}`);
+        globalForTelegram.fixtureRecorder = new FixtureRecorder(fixtureFile);
+      }
+      return new TelegramService(account, globalForTelegram.fixtureRecorder);
+    default:
+      return new TelegramService(account);
+  }
+}
+
+// The services of every configured account, the default one first
+export function getTelegramServices() {
+  if (!globalForTelegram.telegramServices) {
+    globalForTelegram.telegramServices = new Map(
+      getConfig().telegram.accounts.map((account) => [
+        account.name,
+        createTelegramService(account),
+      ])
+    );
+  }
+  return [...globalForTelegram.telegramServices.values()];
+}
+
+// The service of the account that reads `chatId` (an alias or id), or of
+// the default account when there's no chat to go by
+export function getTelegramService(chatId?: string | number | null) {
+  const services = getTelegramServices();
+  const account = chatId ? resolveChat(chatId.toString())?.account : null;
+
+  return (
+    services.find((service) => service.account.name === account) || services[0]
+  );
+}
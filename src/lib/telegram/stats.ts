@@ -0,0 +1,294 @@
+import type { ForumTopicInfo, MessageSender, ParsedMessage } from './types';
+
+export type StatsBucket = 'hour' | 'day' | 'week' | 'month';
+
+export const STATS_BUCKETS: StatsBucket[] = ['hour', 'day', 'week', 'month'];
+
+// Longer timelines only keep their most recent buckets
+const MAX_BUCKETS = 1000;
+// How many posters the leaderboard lists
+const TOP_POSTERS = 10;
+// A question counts as answered by the next message from someone else in
+// the topic within this window, unless someone replies to it directly
+const RESPONSE_WINDOW_S = 24 * 60 * 60;
+
+const HOUR_MS = 60 * 60 * 1000;
+export const DAY_MS = 24 * HOUR_MS;
+
+export interface StatsOptions {
+  // Every topic when unset
+  topicId?: number;
+  // Unix timestamps (seconds), inclusive; default to the archived range
+  from?: number;
+  to?: number;
+  bucket: StatsBucket;
+  // Minutes east of UTC that buckets and heatmaps are laid out in
+  utcOffset: number;
+}
+
+export interface TopicActivity {
+  topicId: number;
+  title?: string;
+  messages: number;
+  senders: number;
+  lastMessageDate?: number;
+}
+
+export interface TimelineBucket {
+  // Unix timestamp of the bucket's start
+  start: number;
+  total: number;
+  // Topic id -> messages
+  topics: Record<number, number>;
+}
+
+export interface TopPoster {
+  id: string;
+  sender?: MessageSender;
+  messages: number;
+}
+
+export interface ChatStats {
+  from: number;
+  to: number;
+  bucket: StatsBucket;
+  utcOffset: number;
+  totalMessages: number;
+  topics: TopicActivity[];
+  timeline: TimelineBucket[];
+  timelineTruncated: boolean;
+  // Messages by weekday (Monday first) and hour of the day
+  heatmap: number[][];
+  hourly: number[];
+  weekdays: number[];
+  topPosters: TopPoster[];
+  responseTime: {
+    questions: number;
+    answered: number;
+    medianSeconds: number | null;
+  };
+  // Senders in the range, split by whether anything of theirs is archived
+  // from before it. The archive may not reach back far, so a first seen
+  // sender isn't necessarily new to the chat.
+  senders: { total: number; firstSeen: number; returning: number };
+}
+
+export const senderKey = (message: ParsedMessage) =>
+  message.sender?.id || message.fromId || 'unknown';
+
+const isQuestion = (message: ParsedMessage) => /\?\s*$/m.test(message.text);
+
+// Start of the bucket holding `localMs`, a time already shifted to the
+// requested UTC offset
+export function bucketStart(localMs: number, bucket: StatsBucket) {
+  const date = new Date(localMs);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (bucket) {
+    case 'hour':
+      return Math.floor(localMs / HOUR_MS) * HOUR_MS;
+    case 'day':
+      return Date.UTC(year, month, day);
+    case 'week':
+      // Weeks start on Monday
+      return Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7));
+    case 'month':
+      return Date.UTC(year, month, 1);
+  }
+}
+
+// Long enough to land inside the following bucket from any bucket start
+const BUCKET_STEP_MS: Record<StatsBucket, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 32 * DAY_MS,
+};
+
+function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Time until each question in `inRange` got its first answer
+function responseTimes(scope: ParsedMessage[], inRange: ParsedMessage[]) {
+  // Topic id -> its messages, oldest first, and each message's position
+  const byTopic = new Map<number | undefined, ParsedMessage[]>();
+  const position = new Map<number, number>();
+  // Question id -> date of its earliest direct reply from someone else
+  const firstReply = new Map<number, number>();
+  const byId = new Map(scope.map((message) => [message.id, message]));
+
+  for (const message of scope) {
+    const topic = byTopic.get(message.topicId) || [];
+    position.set(message.id, topic.length);
+    topic.push(message);
+    byTopic.set(message.topicId, topic);
+
+    const parent =
+      message.replyToMsgId !== undefined
+        ? byId.get(message.replyToMsgId)
+        : undefined;
+    if (parent && senderKey(parent) !== senderKey(message)) {
+      const previous = firstReply.get(parent.id);
+      if (previous === undefined || message.date < previous) {
+        firstReply.set(parent.id, message.date);
+      }
+    }
+  }
+
+  const times: number[] = [];
+  let questions = 0;
+
+  for (const question of inRange) {
+    if (!isQuestion(question)) continue;
+    questions++;
+
+    let answeredAt = firstReply.get(question.id);
+    if (answeredAt === undefined) {
+      const topic = byTopic.get(question.topicId) || [];
+      for (let i = position.get(question.id)! + 1; i < topic.length; i++) {
+        if (topic[i].date > question.date + RESPONSE_WINDOW_S) break;
+        if (senderKey(topic[i]) !== senderKey(question)) {
+          answeredAt = topic[i].date;
+          break;
+        }
+      }
+    }
+
+    if (answeredAt !== undefined) {
+      times.push(Math.max(0, answeredAt - question.date));
+    }
+  }
+
+  return { questions, answered: times.length, medianSeconds: median(times) };
+}
+
+// Activity figures for a chat (or one topic) from its archived messages
+export function computeChatStats(
+  messages: ParsedMessage[],
+  topics: ForumTopicInfo[],
+  options: StatsOptions
+): ChatStats {
+  const { bucket, utcOffset } = options;
+  const offsetMs = utcOffset * 60 * 1000;
+
+  // Everything the stats may look at, oldest first. Service messages
+  // (joins, pins, ...) aren't anyone talking.
+  const scope = messages
+    .filter(
+      (message) =>
+        !message.deleted &&
+        !message.action &&
+        (options.topicId === undefined || message.topicId === options.topicId)
+    )
+    .sort((a, b) => a.id - b.id);
+
+  const from = options.from ?? scope[0]?.date ?? Math.floor(Date.now() / 1000);
+  const to = options.to ?? Math.floor(Date.now() / 1000);
+  const inRange = scope.filter(
+    (message) => message.date >= from && message.date <= to
+  );
+
+  // Timeline buckets, including the empty ones. Long ranges only get
+  // their most recent buckets.
+  const timelineFrom = Math.max(
+    from * 1000,
+    to * 1000 - MAX_BUCKETS * BUCKET_STEP_MS[bucket]
+  );
+  const timeline: TimelineBucket[] = [];
+  const bucketIndex = new Map<number, TimelineBucket>();
+  for (
+    let start = bucketStart(timelineFrom + offsetMs, bucket);
+    start <= to * 1000 + offsetMs;
+    start = bucketStart(start + BUCKET_STEP_MS[bucket], bucket)
+  ) {
+    const entry = { start: (start - offsetMs) / 1000, total: 0, topics: {} };
+    timeline.push(entry);
+    bucketIndex.set(start, entry);
+  }
+
+  const heatmap = Array.from({ length: 7 }, () => new Array(24).fill(0));
+  const topicActivity = new Map<number, TopicActivity>();
+  const topicSenders = new Map<number, Set<string>>();
+  const posters = new Map<string, TopPoster>();
+
+  for (const message of inRange) {
+    const localMs = message.date * 1000 + offsetMs;
+    const topicId = message.topicId ?? 0;
+    const sender = senderKey(message);
+
+    const entry = bucketIndex.get(bucketStart(localMs, bucket));
+    if (entry) {
+      entry.total++;
+      entry.topics[topicId] = (entry.topics[topicId] || 0) + 1;
+    }
+
+    const local = new Date(localMs);
+    heatmap[(local.getUTCDay() + 6) % 7][local.getUTCHours()]++;
+
+    const activity = topicActivity.get(topicId) || {
+      topicId,
+      messages: 0,
+      senders: 0,
+    };
+    activity.messages++;
+    activity.lastMessageDate = message.date;
+    topicActivity.set(topicId, activity);
+
+    const senders = topicSenders.get(topicId) || new Set();
+    senders.add(sender);
+    topicSenders.set(topicId, senders);
+
+    const poster = posters.get(sender) || { id: sender, messages: 0 };
+    poster.messages++;
+    poster.sender = message.sender || poster.sender;
+    posters.set(sender, poster);
+  }
+
+  const titles = new Map(topics.map((topic) => [topic.id, topic.title]));
+  for (const [topicId, activity] of topicActivity) {
+    activity.title = titles.get(topicId);
+    activity.senders = topicSenders.get(topicId)?.size || 0;
+  }
+
+  // Only the archive is asked, stats never wait on Telegram
+  const earlier = new Set(
+    scope.filter((message) => message.date < from).map(senderKey)
+  );
+  const returning = [...posters.keys()].filter((id) => earlier.has(id)).length;
+
+  return {
+    from,
+    to,
+    bucket,
+    utcOffset,
+    totalMessages: inRange.length,
+    topics: [...topicActivity.values()].sort((a, b) => b.messages - a.messages),
+    timeline: timeline.slice(-MAX_BUCKETS),
+    timelineTruncated:
+      timelineFrom > from * 1000 || timeline.length > MAX_BUCKETS,
+    heatmap,
+    hourly: Array.from({ length: 24 }, (_, hour) =>
+      heatmap.reduce((sum, row) => sum + row[hour], 0)
+    ),
+    weekdays: heatmap.map((row) => row.reduce((sum, count) => sum + count, 0)),
+    topPosters: [...posters.values()]
+      .sort((a, b) => b.messages - a.messages)
+      .slice(0, TOP_POSTERS),
+    responseTime: responseTimes(scope, inRange),
+    senders: {
+      total: posters.size,
+      firstSeen: posters.size - returning,
+      returning,
+    },
+  };
+}
@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+import type { MessagePage, MessagePageOptions, ParsedMessage } from './types';
+import { getConfig } from '../config';
+
+export const DATA_DIR = getConfig().dataDir;
+
+const MESSAGES_DIR = path.join(DATA_DIR, 'messages');
+
+// Range of message ids in a topic that is fully mirrored locally.
+// `reachedStart` means everything down to the first message is stored.
+export interface TopicSyncWindow {
+  low: number;
+  high: number;
+  reachedStart: boolean;
+}
+
+// Called with the normalized chat id and the records that were written
+type StoreListener = (chatKey: string, messages: ParsedMessage[]) => void;
+
+interface ChatState {
+  messages: Map<number, ParsedMessage>;
+  windows: Record<number, TopicSyncWindow>;
+}
+
+// The same supergroup shows up as "-100<id>" and as the bare channel id
+export function normalizeChatId(chatId: string | number): string {
+  return chatId.toString().replace(/^-100/, '');
+}
+
+// Append-only JSONL log per chat, replayed into memory on first access.
+// Later records for the same message id replace earlier ones.
+export class MessageStore {
+  private chats = new Map<string, ChatState>();
+  private listeners: StoreListener[] = [];
+
+  constructor(private dir: string = MESSAGES_DIR) {}
+
+  private logPath(key: string) {
+    return path.join(this.dir, `${key}.jsonl`);
+  }
+
+  private windowsPath(key: string) {
+    return path.join(this.dir, `${key}.windows.json`);
+  }
+
+  private load(chatId: string | number): ChatState {
+    const key = normalizeChatId(chatId);
+    const cached = this.chats.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const state: ChatState = { messages: new Map(), windows: {} };
+    const logFile = this.logPath(key);
+
+    if (fs.existsSync(logFile)) {
+      let records = 0;
+      for (const line of fs.readFileSync(logFile, 'utf8').split('\n')) {
+        if (!line) continue;
+        records++;
+        try {
+          const message = JSON.parse(line) as ParsedMessage;
+          state.messages.set(message.id, message);
+        } catch {
+          // Torn line from an interrupted write, the next save supersedes it
+        }
+      }
+
+      // Rewrite the log once superseded records make up most of it
+      if (records > state.messages.size * 2) {
+        this.compact(key, state);
+      }
+    }
+
+    const windowsFile = this.windowsPath(key);
+    if (fs.existsSync(windowsFile)) {
+      state.windows = JSON.parse(fs.readFileSync(windowsFile, 'utf8'));
+    }
+
+    this.chats.set(key, state);
+    return state;
+  }
+
+  private compact(key: string, state: ChatState) {
+    const lines = Array.from(state.messages.values())
+      .map((message) => JSON.stringify(message) + '\n')
+      .join('');
+    const tmpFile = `${this.logPath(key)}.tmp`;
+    fs.writeFileSync(tmpFile, lines);
+    fs.renameSync(tmpFile, this.logPath(key));
+  }
+
+  private append(chatId: string | number, messages: ParsedMessage[]) {
+    const key = normalizeChatId(chatId);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.appendFileSync(
+      this.logPath(key),
+      messages.map((message) => JSON.stringify(message) + '\n').join('')
+    );
+
+    for (const listener of this.listeners) {
+      try {
+        listener(key, messages);
+      } catch (error) {
+        console.error('Error in message store listener:', error);
+      }
+    }
+  }
+
+  // Get notified of every new or changed message, e.g. to keep an index
+  addListener(listener: StoreListener) {
+    this.listeners.push(listener);
+  }
+
+  // Carry the edit history and deleted marker over from the stored copy,
+  // adding the stored text as a revision when the new one differs
+  private merge(
+    existing: ParsedMessage | undefined,
+    incoming: ParsedMessage
+  ): ParsedMessage {
+    if (!existing) {
+      return incoming;
+    }
+
+    const editHistory = [...(existing.editHistory || [])];
+    if (existing.text !== incoming.text) {
+      editHistory.push({
+        text: existing.text,
+        date: existing.editDate || existing.date,
+      });
+    }
+
+    return {
+      ...incoming,
+      editHistory: editHistory.length > 0 ? editHistory : undefined,
+      deleted: incoming.deleted || existing.deleted,
+    };
+  }
+
+  // Store messages, deduplicated by chat + message id.
+  // Returns only the messages that were new or changed.
+  save(chatId: string | number, messages: ParsedMessage[]): ParsedMessage[] {
+    const state = this.load(chatId);
+    const changed: ParsedMessage[] = [];
+
+    for (const message of messages) {
+      const existing = state.messages.get(message.id);
+      const record = this.merge(existing, message);
+
+      if (existing && JSON.stringify(existing) === JSON.stringify(record)) {
+        continue;
+      }
+
+      state.messages.set(record.id, record);
+      changed.push(record);
+    }
+
+    if (changed.length > 0) {
+      this.append(chatId, changed);
+    }
+
+    return changed;
+  }
+
+  // Keep deleted messages around with a marker rather than dropping them.
+  // Returns the stored messages that were affected.
+  markDeleted(chatId: string | number, ids: number[]): ParsedMessage[] {
+    const state = this.load(chatId);
+    const deleted: ParsedMessage[] = [];
+
+    for (const id of ids) {
+      const existing = state.messages.get(id);
+      if (existing && !existing.deleted) {
+        const record = { ...existing, deleted: true };
+        state.messages.set(id, record);
+        deleted.push(record);
+      }
+    }
+
+    if (deleted.length > 0) {
+      this.append(chatId, deleted);
+    }
+
+    return deleted;
+  }
+
+  listMessages(chatId: string | number): ParsedMessage[] {
+    return Array.from(this.load(chatId).messages.values());
+  }
+
+  getMessage(chatId: string | number, id: number): ParsedMessage | undefined {
+    return this.load(chatId).messages.get(id);
+  }
+
+  // Record that a Telegram page covered a gapless id range of the topic,
+  // so later requests inside that range can be answered locally
+  recordPage(
+    chatId: string | number,
+    topicId: number,
+    options: MessagePageOptions,
+    page: MessagePage
+  ) {
+    const state = this.load(chatId);
+    const ids = page.messages.map((message) => message.id);
+    const forward = options.after !== undefined && options.before === undefined;
+
+    let low: number;
+    let high: number;
+    let reachedStart = false;
+
+    if (forward) {
+      low = options.after! + 1;
+      high = ids.length > 0 ? Math.max(...ids) : options.after!;
+    } else {
+      high = options.before
+        ? options.before - 1
+        : Math.max(0, ...ids, state.windows[topicId]?.high ?? 0);
+
+      if (page.nextCursor !== undefined) {
+        low = page.nextCursor;
+      } else if (options.after !== undefined) {
+        low = options.after + 1;
+      } else {
+        low = 0;
+        reachedStart = true;
+      }
+    }
+
+    const current = state.windows[topicId];
+    const overlaps =
+      current && low <= current.high + 1 && high >= current.low - 1;
+
+    state.windows[topicId] = overlaps
+      ? {
+          low: Math.min(low, current.low),
+          high: Math.max(high, current.high),
+          reachedStart: reachedStart || current.reachedStart,
+        }
+      : { low, high, reachedStart };
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(
+      this.windowsPath(normalizeChatId(chatId)),
+      JSON.stringify(state.windows)
+    );
+  }
+
+  getSyncWindow(
+    chatId: string | number,
+    topicId: number
+  ): TopicSyncWindow | undefined {
+    return this.load(chatId).windows[topicId];
+  }
+
+  // All stored messages of a topic, newest first
+  listTopicMessages(
+    chatId: string | number,
+    topicId: number,
+    options: MessagePageOptions = {}
+  ): ParsedMessage[] {
+    const { before, after } = options;
+
+    return Array.from(this.load(chatId).messages.values())
+      .filter(
+        (message) =>
+          message.topicId === topicId &&
+          (!before || message.id < before) &&
+          (after === undefined || message.id > after)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  // Answer a page request from the store, or null when the requested range
+  // is not fully mirrored and Telegram has to fill it in
+  getTopicPage(
+    chatId: string | number,
+    topicId: number,
+    options: MessagePageOptions,
+    limit: number
+  ): MessagePage | null {
+    const window = this.load(chatId).windows[topicId];
+    if (!window) {
+      return null;
+    }
+
+    const { before, after } = options;
+
+    if (after !== undefined && before === undefined) {
+      if (after < window.low - 1 || after >= window.high) {
+        return null;
+      }
+
+      const newer = this.listTopicMessages(chatId, topicId, { after }).filter(
+        (message) => message.id <= window.high
+      );
+
+      // A short page would stop at our synced head rather than the real one
+      if (newer.length < limit) {
+        return null;
+      }
+
+      const messages = newer.slice(-limit);
+      return { messages, nextCursor: messages[0].id };
+    }
+
+    const upper = before ? before - 1 : window.high;
+    if (upper > window.high || upper < window.low) {
+      return null;
+    }
+
+    const older = this.listTopicMessages(chatId, topicId, {
+      before: upper + 1,
+      after,
+    }).filter((message) => message.id >= window.low);
+
+    if (older.length >= limit) {
+      const messages = older.slice(0, limit);
+      return { messages, nextCursor: messages[limit - 1].id };
+    }
+
+    if (
+      window.reachedStart ||
+      (after !== undefined && after >= window.low - 1)
+    ) {
+      return { messages: older };
+    }
+
+    return null;
+  }
+}
+
+// One store per process so every route sees the same in-memory state
+const globalForStore = globalThis as unknown as {
+  messageStore?: MessageStore;
+};
+
+export function getMessageStore() {
+  if (!globalForStore.messageStore) {
+    globalForStore.messageStore = new MessageStore();
+  }
+  return globalForStore.messageStore;
+}
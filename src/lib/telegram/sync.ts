@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import { TelegramService } from './client';
+import { getTelegramService } from './service';
+import { RateLimitedError } from './scheduler';
+import {
+  DATA_DIR,
+  getMessageStore,
+  MessageStore,
+  normalizeChatId,
+} from './store';
+import type { ForumTopicInfo } from './types';
+import { ChatConfig, getConfig } from '../config';
+
+const SYNC_FILE = path.join(DATA_DIR, 'sync.json');
+
+export interface TopicSyncState {
+  chatId: string;
+  topicId: number;
+  title: string;
+  // Newest message id in the topic, as of the last run
+  latestId?: number;
+  // Newest message id mirrored locally
+  syncedId?: number;
+  // Messages pulled in by the last run that had anything to fetch
+  fetched: number;
+  // Epoch milliseconds
+  lastRunAt: number;
+  lastSuccessAt?: number;
+  error?: string;
+}
+
+export interface SyncRun {
+  // Epoch milliseconds
+  startedAt: number;
+  finishedAt?: number;
+  fetched: number;
+  // Chats whose topics couldn't be listed, topics that failed, and rate
+  // limits that held back the rest of an account's chats
+  failures: { chatId?: string; topicId?: number; error: string }[];
+}
+
+export interface SyncStatus {
+  enabled: boolean;
+  intervalSeconds: number;
+  running: boolean;
+  lastRun?: SyncRun;
+  nextRunAt?: number;
+  topics: (TopicSyncState & {
+    // Seconds since the topic was last known to be fully synced
+    lagSeconds: number | null;
+    behind: boolean;
+  })[];
+}
+
+interface SyncFile {
+  topics: Record<string, TopicSyncState>;
+  lastRun?: SyncRun;
+}
+
+const stateKey = (chatId: string, topicId: number) =>
+  `${normalizeChatId(chatId)}:${topicId}`;
+
+// Keeps the archive complete without anyone watching: every interval it
+// lists the topics of each configured chat and pulls in whatever is newer
+// than the stored head of each one. Topics are visited one at a time and
+// each account's request scheduler paces its calls.
+export class SyncWorker {
+  private state: SyncFile;
+  private running: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private nextRunAt?: number;
+  private intervalSeconds: number;
+
+  constructor(
+    // The service of the account reading a chat
+    private serviceFor: (chatId: string) => TelegramService,
+    private store: MessageStore = getMessageStore(),
+    private file: string = SYNC_FILE
+  ) {
+    this.intervalSeconds = getConfig().sync.intervalSeconds;
+    this.state = fs.existsSync(file)
+      ? JSON.parse(fs.readFileSync(file, 'utf8'))
+      : { topics: {} };
+  }
+
+  // Write via a temp file so a crash never leaves half a file behind
+  private save() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmpFile = `${this.file}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(this.state, null, 2));
+    fs.renameSync(tmpFile, this.file);
+  }
+
+  start() {
+    if (this.intervalSeconds > 0) {
+      this.schedule(0);
+    }
+  }
+
+  private schedule(delayMs: number) {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.nextRunAt = Date.now() + delayMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.nextRunAt = undefined;
+      this.runNow().catch((error) => {
+        console.error('Error running background sync:', error);
+      });
+    }, delayMs);
+  }
+
+  // Start a run unless one is going already; resolves when it finishes
+  runNow(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async run() {
+    const run: SyncRun = { startedAt: Date.now(), fetched: 0, failures: [] };
+    let retryAfter = 0;
+    // Accounts Telegram rate limited during the run
+    const limited = new Set<string>();
+
+    try {
+      for (const chat of getConfig().chats) {
+        // The remaining chats of a rate limited account wait for Telegram
+        // to let it back in; other accounts carry on
+        if (limited.has(chat.account)) continue;
+
+        try {
+          await this.syncChat(chat, run);
+        } catch (error) {
+          if (!(error instanceof RateLimitedError)) throw error;
+          limited.add(chat.account);
+          retryAfter = Math.max(retryAfter, error.retryAfter);
+          run.failures.push({ chatId: chat.id, error: error.message });
+        }
+      }
+    } finally {
+      run.finishedAt = Date.now();
+      this.state.lastRun = run;
+      this.save();
+
+      console.log(
+        `Background sync fetched ${run.fetched} messages (${run.failures.length} failures)`
+      );
+
+      if (this.intervalSeconds > 0) {
+        this.schedule(Math.max(this.intervalSeconds, retryAfter) * 1000);
+      }
+    }
+  }
+
+  private async syncChat(chat: ChatConfig, run: SyncRun) {
+    const service = this.serviceFor(chat.id);
+    let topics: ForumTopicInfo[];
+    try {
+      topics = await service.getForumTopics(chat.id);
+    } catch (error) {
+      if (error instanceof RateLimitedError) throw error;
+      run.failures.push({
+        chatId: chat.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    // So topics a rate limit keeps us from visiting still show as behind
+    for (const topic of topics) {
+      const state = this.state.topics[stateKey(chat.id, topic.id)];
+      if (state) {
+        state.latestId = topic.lastMessageId;
+      }
+    }
+
+    for (const topic of topics) {
+      run.fetched += await this.syncTopic(service, chat.id, topic, run);
+    }
+  }
+
+  // Pull in everything newer than the topic's stored head; a topic seen
+  // for the first time gets its latest page. Returns the messages fetched.
+  private async syncTopic(
+    service: TelegramService,
+    chatId: string,
+    topic: ForumTopicInfo,
+    run: SyncRun
+  ): Promise<number> {
+    const key = stateKey(chatId, topic.id);
+    const previous = this.state.topics[key];
+    const syncedBefore = this.store.getSyncWindow(chatId, topic.id)?.high;
+    const state: TopicSyncState = {
+      chatId,
+      topicId: topic.id,
+      title: topic.title,
+      latestId: topic.lastMessageId,
+      syncedId: syncedBefore,
+      fetched: previous?.fetched || 0,
+      lastRunAt: Date.now(),
+      lastSuccessAt: previous?.lastSuccessAt,
+    };
+    this.state.topics[key] = state;
+
+    // Nothing new since the last time
+    if (
+      syncedBefore !== undefined &&
+      topic.lastMessageId !== undefined &&
+      topic.lastMessageId <= syncedBefore
+    ) {
+      state.lastSuccessAt = Date.now();
+      return 0;
+    }
+
+    try {
+      if (syncedBefore === undefined) {
+        await service.getForumTopicMessages(chatId, topic.id);
+      } else {
+        await service.syncTopicHead(chatId, topic.id);
+      }
+    } catch (error) {
+      if (error instanceof RateLimitedError) {
+        state.error = error.message;
+        throw error;
+      }
+      state.error = error instanceof Error ? error.message : String(error);
+      run.failures.push({ chatId, topicId: topic.id, error: state.error });
+      return 0;
+    }
+
+    state.syncedId = this.store.getSyncWindow(chatId, topic.id)?.high;
+    state.fetched = this.store.listTopicMessages(chatId, topic.id, {
+      after: syncedBefore,
+    }).length;
+    state.lastSuccessAt = Date.now();
+    return state.fetched;
+  }
+
+  getStatus(): SyncStatus {
+    const now = Date.now();
+
+    return {
+      enabled: this.intervalSeconds > 0,
+      intervalSeconds: this.intervalSeconds,
+      running: this.running !== null,
+      lastRun: this.state.lastRun,
+      nextRunAt: this.nextRunAt,
+      topics: Object.values(this.state.topics).map((topic) => ({
+        ...topic,
+        lagSeconds: topic.lastSuccessAt
+          ? Math.round((now - topic.lastSuccessAt) / 1000)
+          : null,
+        behind:
+          topic.latestId !== undefined &&
+          (topic.syncedId === undefined || topic.syncedId < topic.latestId),
+      })),
+    };
+  }
+}
+
+const globalForSync = globalThis as unknown as {
+  syncWorker?: SyncWorker;
+};
+
+export function getSyncWorker() {
+  if (!globalForSync.syncWorker) {
+    const worker = new SyncWorker(getTelegramService);
+    globalForSync.syncWorker = worker;
+    worker.start();
+  }
+  return globalForSync.syncWorker;
+}
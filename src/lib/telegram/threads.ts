@@ -0,0 +1,95 @@
+import { TelegramService } from './client';
+import { getMessageStore } from './store';
+import type { ParsedMessage } from './types';
+
+// How far up and down a thread we follow replies
+const MAX_THREAD_DEPTH = 50;
+
+export interface ThreadNode {
+  message: ParsedMessage;
+  // Direct replies, oldest first
+  replies: ThreadNode[];
+}
+
+export interface MessageThread extends ThreadNode {
+  // The messages this one replies to, from the thread's start down to the
+  // direct parent
+  ancestors: ParsedMessage[];
+  // Set when the chain breaks off at a message that no longer exists
+  missingParentId?: number;
+}
+
+// Archived copies can predate the forum-aware reply parsing, where a plain
+// topic post looked like a reply to the topic's root
+export function replyParentId(message: ParsedMessage): number | undefined {
+  return message.replyToMsgId !== message.topicId
+    ? message.replyToMsgId
+    : undefined;
+}
+
+// Rebuild the conversation around a message. Parents missing from the
+// store are fetched from Telegram; replies only come from the store, since
+// Telegram can't list the replies to a message inside a forum topic.
+export async function getMessageThread(
+  service: TelegramService,
+  chatId: string | number,
+  messageId: number
+): Promise<MessageThread | null> {
+  const store = getMessageStore();
+
+  const lookup = async (id: number) =>
+    store.getMessage(chatId, id) ||
+    (await service.getMessages(chatId, [id]))[0];
+
+  const message = await lookup(messageId);
+  if (!message) {
+    return null;
+  }
+
+  const ancestors: ParsedMessage[] = [];
+  const seen = new Set([message.id]);
+  let missingParentId: number | undefined;
+  let parentId = replyParentId(message);
+
+  while (
+    parentId !== undefined &&
+    !seen.has(parentId) &&
+    ancestors.length < MAX_THREAD_DEPTH
+  ) {
+    const parent = await lookup(parentId);
+    if (!parent) {
+      missingParentId = parentId;
+      break;
+    }
+
+    ancestors.unshift(parent);
+    seen.add(parent.id);
+    parentId = replyParentId(parent);
+  }
+
+  // Parent id -> replies, for everything archived from the chat
+  const children = new Map<number, ParsedMessage[]>();
+  for (const stored of store.listMessages(chatId)) {
+    const id = replyParentId(stored);
+    if (id !== undefined) {
+      children.set(id, [...(children.get(id) || []), stored]);
+    }
+  }
+
+  const collect = (id: number, depth: number): ThreadNode[] =>
+    depth >= MAX_THREAD_DEPTH
+      ? []
+      : (children.get(id) || [])
+          .sort((a, b) => a.id - b.id)
+          .map((reply) => ({
+            message: reply,
+            replies: collect(reply.id, depth + 1),
+          }));
+
+  return {
+    ancestors,
+    missingParentId,
+    message,
+    replies: collect(message.id, 0),
+  };
+}
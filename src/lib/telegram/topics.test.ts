@@ -0,0 +1,58 @@
+import { FORUM_FIXTURE } from './__fixtures__/env';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Api } from 'telegram';
+import { deserializeTL, readFixture } from './fixtures';
+import { GENERAL_TOPIC_ID, messageTopicId, replyToMessageId } from './topics';
+
+// Messages 10 and 23 are in General, 20 creates the Releases topic and
+// 21, 22 and 24 are posted inside it
+const recorded = new Map(
+  Object.entries(readFixture(FORUM_FIXTURE).messages['1234567890']).map(
+    ([id, raw]) => [
+      Number(id),
+      deserializeTL(raw) as Api.Message | Api.MessageService,
+    ]
+  )
+);
+const message = (id: number) => recorded.get(id)!;
+
+describe('messageTopicId', () => {
+  it('puts messages without a topic reference in General', () => {
+    assert.equal(messageTopicId(message(10)), GENERAL_TOPIC_ID);
+    assert.equal(messageTopicId(message(23)), GENERAL_TOPIC_ID);
+  });
+
+  it('makes a topic creation message its own root', () => {
+    assert.equal(messageTopicId(message(20)), 20);
+  });
+
+  it('follows plain topic posts to the topic root', () => {
+    assert.equal(messageTopicId(message(21)), 20);
+  });
+
+  it('prefers the top id for replies inside a topic', () => {
+    assert.equal(messageTopicId(message(22)), 20);
+    assert.equal(messageTopicId(message(24)), 20);
+  });
+});
+
+describe('replyToMessageId', () => {
+  it('is unset for messages that reply to nothing', () => {
+    assert.equal(replyToMessageId(message(10)), undefined);
+    assert.equal(replyToMessageId(message(20)), undefined);
+  });
+
+  it("ignores a plain topic post's reference to the topic root", () => {
+    assert.equal(replyToMessageId(message(21)), undefined);
+  });
+
+  it('returns the message replied to, inside a topic or in General', () => {
+    assert.equal(replyToMessageId(message(22)), 21);
+    assert.equal(replyToMessageId(message(23)), 10);
+  });
+
+  it('returns the pinned message of a pin inside a topic', () => {
+    assert.equal(replyToMessageId(message(24)), 21);
+  });
+});
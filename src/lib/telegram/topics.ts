@@ -0,0 +1,42 @@
+import { Api } from 'telegram';
+
+// Every forum has a General topic with this id. Its messages carry no
+// forum topic reference at all.
+export const GENERAL_TOPIC_ID = 1;
+
+// Which forum topic a message belongs to. Messages in other topics are
+// flagged `forumTopic` and point at the topic's root message: through
+// `replyToTopId` when replying to someone in the topic, otherwise through
+// `replyToMsgId`. A topic's creation message is its own root.
+export function messageTopicId(
+  message: Api.Message | Api.MessageService
+): number {
+  if (
+    message instanceof Api.MessageService &&
+    message.action instanceof Api.MessageActionTopicCreate
+  ) {
+    return message.id;
+  }
+
+  const replyTo = message.replyTo;
+  if (replyTo instanceof Api.MessageReplyHeader && replyTo.forumTopic) {
+    return replyTo.replyToTopId || replyTo.replyToMsgId || GENERAL_TOPIC_ID;
+  }
+
+  return GENERAL_TOPIC_ID;
+}
+
+// The message a message replies to, if any. Plain posts in a forum topic
+// point at the topic's root as well, but they aren't replies to anyone.
+export function replyToMessageId(
+  message: Api.Message | Api.MessageService
+): number | undefined {
+  const replyTo = message.replyTo;
+  if (!(replyTo instanceof Api.MessageReplyHeader)) {
+    return undefined;
+  }
+  if (replyTo.forumTopic && !replyTo.replyToTopId) {
+    return undefined;
+  }
+  return replyTo.replyToMsgId;
+}
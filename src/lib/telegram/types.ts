@@ -0,0 +1,179 @@
+export interface ParsedMessage {
+  id: number;
+  text: string;
+  date: number;
+  fromId?: string;
+  replyToMsgId?: number;
+  topicId?: number;
+  editDate?: number;
+  // Earlier versions of the text, oldest first (kept by the local store)
+  editHistory?: MessageRevision[];
+  deleted?: boolean;
+  media?: MessageMedia;
+  sender?: MessageSender;
+  entities?: MessageEntity[];
+  // Set on service messages (joins, pins, topic changes, ...), whose text
+  // is a description of the action
+  action?: MessageAction;
+}
+
+// What a service message records. Ids are the users affected, the sender
+// being whoever did it.
+export type MessageAction =
+  | { type: 'members_joined'; userIds: string[]; via?: 'link' | 'request' }
+  | { type: 'member_left'; userId: string }
+  | { type: 'message_pinned'; messageId?: number }
+  | {
+      type: 'topic_created';
+      title: string;
+      iconColor?: number;
+      iconEmojiId?: string;
+    }
+  | {
+      type: 'topic_edited';
+      title?: string;
+      iconEmojiId?: string;
+      closed?: boolean;
+      hidden?: boolean;
+    }
+  | { type: 'chat_title_changed'; title: string }
+  | { type: 'chat_photo_changed' }
+  | { type: 'chat_photo_removed' }
+  // Anything else, by its Telegram name (e.g. "GroupCall")
+  | { type: 'other'; name: string };
+
+export type TopicChange =
+  'created' | 'renamed' | 'closed' | 'reopened' | 'edited';
+
+export type MessageEntityType =
+  | 'bold'
+  | 'italic'
+  | 'underline'
+  | 'strike'
+  | 'spoiler'
+  | 'code'
+  | 'pre'
+  | 'blockquote'
+  | 'text_link'
+  | 'url'
+  | 'email'
+  | 'phone'
+  | 'mention'
+  | 'mention_name'
+  | 'hashtag'
+  | 'cashtag'
+  | 'bot_command'
+  | 'bank_card'
+  | 'custom_emoji';
+
+// Formatting span over `text`. Offsets and lengths count UTF-16 code units,
+// as Telegram does, so they index JS strings directly.
+export interface MessageEntity {
+  type: MessageEntityType;
+  offset: number;
+  length: number;
+  // text_link target
+  url?: string;
+  // mention_name target
+  userId?: string;
+  // pre block language
+  language?: string;
+  customEmojiId?: string;
+}
+
+export type SenderKind =
+  'user' | 'bot' | 'channel' | 'group' | 'anonymous_admin';
+
+export interface MessageSender {
+  id: string;
+  kind: SenderKind;
+  displayName: string;
+  username?: string;
+  // Current profile photo, served by the avatars route
+  avatarId?: string;
+}
+
+export type MediaKind =
+  | 'photo'
+  | 'video'
+  | 'video_note'
+  | 'animation'
+  | 'audio'
+  | 'voice'
+  | 'sticker'
+  | 'document'
+  | 'other';
+
+// What a message has attached; the file itself is served by the media route
+export interface MessageMedia {
+  kind: MediaKind;
+  mimeType?: string;
+  size?: number;
+  fileName?: string;
+  width?: number;
+  height?: number;
+  // Seconds, for audio and video
+  duration?: number;
+  hasThumbnail?: boolean;
+}
+
+export interface MessageRevision {
+  text: string;
+  // When this version was posted or last edited
+  date: number;
+}
+
+// Live updates delivered to topic stream subscribers. Topic changes go to
+// every subscriber of the chat, so topic lists can be refreshed.
+export type TopicStreamEvent =
+  | { type: 'message'; message: ParsedMessage }
+  | { type: 'edited'; message: ParsedMessage }
+  | { type: 'deleted'; ids: number[] }
+  | {
+      type: 'topic';
+      change: TopicChange;
+      topic: { id: number; title?: string; closed?: boolean };
+    };
+
+export interface AccountHealth {
+  account: string;
+  connected: boolean;
+  // The Telegram user behind the session, once it has connected
+  user?: MessageSender;
+  // Epoch milliseconds
+  lastSuccessAt?: number;
+  lastError?: { method: string; message: string; at: number };
+  // Methods Telegram has the account waiting on, and until when
+  floodWaits: { method: string; until: number }[];
+  // Live topic subscriptions
+  streams: number;
+}
+
+export interface ForumTopicInfo {
+  id: number;
+  title: string;
+  unreadCount: number;
+  lastMessageId?: number;
+  date: number;
+  closed: boolean;
+  pinned: boolean;
+  // RGB color of the default topic icon
+  iconColor?: number;
+  // Custom emoji shown instead of the colored icon, if set
+  iconEmojiId?: string;
+  iconEmoji?: string;
+}
+
+// Message id cursors for paging through a topic.
+// `before` walks back in history, `after` walks forward towards the present.
+export interface MessagePageOptions {
+  limit?: number;
+  before?: number;
+  after?: number;
+}
+
+export interface MessagePage {
+  messages: ParsedMessage[];
+  // Pass back as the same cursor (`before` or `after`) to get the next page
+  nextCursor?: number;
+}
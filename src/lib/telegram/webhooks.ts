@@ -0,0 +1,395 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { TelegramService } from './client';
+import { getTelegramService } from './service';
+import { DATA_DIR, normalizeChatId } from './store';
+import type { TopicStreamEvent } from './types';
+
+const WEBHOOKS_DIR = path.join(DATA_DIR, 'webhooks');
+
+// Retry schedule: 5s, 10s, 20s, ... doubling until the 8th attempt (after
+// a 320s wait) fails, then dead-letter. The cap only matters if
+// MAX_ATTEMPTS goes up.
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const DELIVERY_TIMEOUT_MS = 10000;
+// How long to wait before subscribing again to topic streams that failed,
+// e.g. because Telegram was unreachable
+const STREAM_RETRY_DELAY_MS = 60 * 1000;
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  // Shared secret for the X-Webhook-Signature HMAC
+  secret: string;
+  chatId: string;
+  topicId: number;
+  createdAt: number;
+}
+
+export type WebhookPayload = TopicStreamEvent & {
+  chatId: string;
+  topicId: number;
+  timestamp: number;
+};
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  payload: WebhookPayload;
+  attempts: number;
+  // Epoch milliseconds
+  createdAt: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+interface DeliveryQueue {
+  pending: WebhookDelivery[];
+  deadLetters: WebhookDelivery[];
+}
+
+// X-Webhook-Signature is "sha256=" + hex HMAC of "<timestamp>.<body>",
+// keyed with the subscription secret
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return (
+    'sha256=' +
+    crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex')
+  );
+}
+
+const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Forwards topic stream events to subscribed URLs. Subscriptions and the
+// delivery queue live on disk, so pending retries survive restarts.
+export class WebhookDispatcher {
+  private subscriptions: WebhookSubscription[] = [];
+  private queue: DeliveryQueue = { pending: [], deadLetters: [] };
+  // One topic stream per chat/topic pair that has subscribers
+  private streams = new Map<string, Promise<() => void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private streamRetryTimer: NodeJS.Timeout | null = null;
+  private processing = false;
+
+  constructor(
+    // The service of the account reading a chat
+    private serviceFor: (chatId: string) => TelegramService,
+    private dir: string = WEBHOOKS_DIR
+  ) {
+    this.subscriptions = this.readJson('subscriptions.json', []);
+    this.queue = this.readJson('queue.json', { pending: [], deadLetters: [] });
+  }
+
+  private readJson<T>(file: string, fallback: T): T {
+    const filePath = path.join(this.dir, file);
+    return fs.existsSync(filePath)
+      ? JSON.parse(fs.readFileSync(filePath, 'utf8'))
+      : fallback;
+  }
+
+  // Write via a temp file so a crash never leaves half a file behind
+  private writeJson(file: string, data: unknown) {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const filePath = path.join(this.dir, file);
+    const tmpFile = `${filePath}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpFile, filePath);
+  }
+
+  private saveSubscriptions() {
+    this.writeJson('subscriptions.json', this.subscriptions);
+  }
+
+  private saveQueue() {
+    this.writeJson('queue.json', this.queue);
+  }
+
+  async start() {
+    await this.syncStreams();
+    this.schedule();
+  }
+
+  listSubscriptions() {
+    return this.subscriptions;
+  }
+
+  async addSubscription(options: {
+    url: string;
+    chatId: string;
+    topicId: number;
+    secret?: string;
+  }): Promise<WebhookSubscription> {
+    const subscription: WebhookSubscription = {
+      id: crypto.randomUUID(),
+      url: options.url,
+      secret: options.secret || crypto.randomBytes(32).toString('hex'),
+      chatId: options.chatId,
+      topicId: options.topicId,
+      createdAt: Date.now(),
+    };
+
+    this.subscriptions.push(subscription);
+    this.saveSubscriptions();
+    await this.syncStreams();
+
+    return subscription;
+  }
+
+  // Also drops the subscription's pending deliveries; its dead letters
+  // stay around for inspection
+  async removeSubscription(id: string) {
+    const before = this.subscriptions.length;
+    this.subscriptions = this.subscriptions.filter((s) => s.id !== id);
+    if (this.subscriptions.length === before) {
+      return false;
+    }
+
+    this.saveSubscriptions();
+    this.queue.pending = this.queue.pending.filter(
+      (delivery) => delivery.subscriptionId !== id
+    );
+    this.saveQueue();
+    await this.syncStreams();
+
+    return true;
+  }
+
+  getQueue(): DeliveryQueue {
+    return this.queue;
+  }
+
+  // Move dead letters (all, or the given ids) back into the queue with a
+  // fresh retry budget. Returns how many were requeued.
+  replay(ids?: string[]) {
+    const replayed = this.queue.deadLetters.filter(
+      (delivery) =>
+        (!ids || ids.includes(delivery.id)) &&
+        this.subscriptions.some((s) => s.id === delivery.subscriptionId)
+    );
+    if (replayed.length === 0) {
+      return 0;
+    }
+
+    this.queue.deadLetters = this.queue.deadLetters.filter(
+      (delivery) => !replayed.includes(delivery)
+    );
+    for (const delivery of replayed) {
+      this.queue.pending.push({
+        ...delivery,
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+      });
+    }
+
+    this.saveQueue();
+    this.schedule();
+
+    return replayed.length;
+  }
+
+  // Subscribe to the topic streams subscriptions need, and drop the ones
+  // they no longer do
+  private async syncStreams() {
+    const wanted = new Map<string, WebhookSubscription>();
+    for (const subscription of this.subscriptions) {
+      wanted.set(
+        `${normalizeChatId(subscription.chatId)}:${subscription.topicId}`,
+        subscription
+      );
+    }
+
+    for (const [key, unsubscribe] of this.streams) {
+      if (!wanted.has(key)) {
+        this.streams.delete(key);
+        (await unsubscribe)();
+      }
+    }
+
+    let failed = false;
+    for (const [key, { chatId, topicId }] of wanted) {
+      if (this.streams.has(key)) continue;
+
+      const unsubscribe = this.serviceFor(chatId).streamForumTopicMessages(
+        chatId,
+        topicId,
+        (event) => this.enqueue(chatId, topicId, event)
+      );
+      this.streams.set(key, unsubscribe);
+
+      try {
+        await unsubscribe;
+      } catch (error) {
+        this.streams.delete(key);
+        failed = true;
+        console.error(`Error streaming topic ${topicId} for webhooks:`, error);
+      }
+    }
+
+    if (failed) {
+      this.retryStreams();
+    }
+  }
+
+  // Try the failed streams again a little later; one retry pending at most
+  private retryStreams() {
+    if (this.streamRetryTimer) return;
+
+    this.streamRetryTimer = setTimeout(() => {
+      this.streamRetryTimer = null;
+      this.syncStreams().catch((error) => {
+        console.error('Error syncing webhook streams:', error);
+      });
+    }, STREAM_RETRY_DELAY_MS);
+  }
+
+  private enqueue(chatId: string, topicId: number, event: TopicStreamEvent) {
+    const payload: WebhookPayload = {
+      ...event,
+      chatId,
+      topicId,
+      timestamp: Date.now(),
+    };
+    const chatKey = normalizeChatId(chatId);
+
+    for (const subscription of this.subscriptions) {
+      if (
+        normalizeChatId(subscription.chatId) !== chatKey ||
+        subscription.topicId !== topicId
+      ) {
+        continue;
+      }
+
+      this.queue.pending.push({
+        id: crypto.randomUUID(),
+        subscriptionId: subscription.id,
+        url: subscription.url,
+        payload,
+        attempts: 0,
+        createdAt: Date.now(),
+        nextAttemptAt: Date.now(),
+      });
+    }
+
+    this.saveQueue();
+    this.schedule();
+  }
+
+  // Wake up when the earliest pending delivery is due
+  private schedule() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.queue.pending.length === 0) {
+      return;
+    }
+
+    const next = Math.min(...this.queue.pending.map((d) => d.nextAttemptAt));
+    this.timer = setTimeout(
+      () => {
+        this.timer = null;
+        this.processQueue().catch((error) => {
+          console.error('Error processing webhook queue:', error);
+        });
+      },
+      Math.max(next - Date.now(), 0)
+    );
+  }
+
+  private async processQueue() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      const now = Date.now();
+      const due = this.queue.pending.filter((d) => d.nextAttemptAt <= now);
+
+      await Promise.all(due.map((delivery) => this.attempt(delivery)));
+
+      this.saveQueue();
+    } finally {
+      this.processing = false;
+      this.schedule();
+    }
+  }
+
+  private async attempt(delivery: WebhookDelivery) {
+    const subscription = this.subscriptions.find(
+      (s) => s.id === delivery.subscriptionId
+    );
+    const error = subscription
+      ? await this.deliver(subscription, delivery)
+      : null;
+
+    if (error === null) {
+      this.queue.pending = this.queue.pending.filter((d) => d !== delivery);
+      return;
+    }
+
+    delivery.attempts++;
+    delivery.lastError = error;
+
+    if (delivery.attempts >= MAX_ATTEMPTS) {
+      console.error(
+        `Webhook delivery ${delivery.id} to ${delivery.url} failed ${delivery.attempts} times, moving to dead letters`
+      );
+      this.queue.pending = this.queue.pending.filter((d) => d !== delivery);
+      this.queue.deadLetters.push(delivery);
+    } else {
+      delivery.nextAttemptAt = Date.now() + retryDelay(delivery.attempts);
+    }
+  }
+
+  // POST one delivery; returns null on success or the failure reason
+  private async deliver(
+    subscription: WebhookSubscription,
+    delivery: WebhookDelivery
+  ): Promise<string | null> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhook(
+            subscription.secret,
+            timestamp,
+            body
+          ),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      return response.ok ? null : `HTTP ${response.status}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+const globalForWebhooks = globalThis as unknown as {
+  webhookDispatcher?: WebhookDispatcher;
+};
+
+export function getWebhookDispatcher() {
+  if (!globalForWebhooks.webhookDispatcher) {
+    const dispatcher = new WebhookDispatcher(getTelegramService);
+    globalForWebhooks.webhookDispatcher = dispatcher;
+    dispatcher.start().catch((error) => {
+      console.error('Error starting webhook dispatcher:', error);
+    });
+  }
+  return globalForWebhooks.webhookDispatcher;
+}